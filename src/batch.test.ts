@@ -0,0 +1,48 @@
+import { mapWithConcurrency } from "./batch";
+
+describe("batch", () => {
+  describe("mapWithConcurrency()", () => {
+    it("should never run more calls than the concurrency at once", async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const results = await mapWithConcurrency(
+        [1, 2, 3, 4, 5],
+        2,
+        async (item) => {
+          running += 1;
+          maxRunning = Math.max(maxRunning, running);
+
+          await Promise.resolve();
+
+          running -= 1;
+          return item * 2;
+        },
+      );
+
+      expect(maxRunning).toStrictEqual(2);
+      expect(results.map((result) => result.status)).toStrictEqual(
+        Array(5).fill("fulfilled"),
+      );
+      expect(
+        results.map(
+          (result) => (result as PromiseFulfilledResult<number>).value,
+        ),
+      ).toStrictEqual([2, 4, 6, 8, 10]);
+    });
+
+    it("should keep going when a call fails", async () => {
+      const error = Error("Unexpected Error");
+
+      const results = await mapWithConcurrency([1, 2], 1, async (item) => {
+        if (item === 1) throw error;
+        return item;
+      });
+
+      expect(results).toStrictEqual([
+        { status: "rejected", reason: error },
+        { status: "fulfilled", value: 2 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Calls an async function for every item with at most `concurrency` calls running at the same time.
+ *
+ * @param {I[]} items - The items to call the function with.
+ * @param {number} concurrency - The maximum number of concurrent calls.
+ * @param {Function} fn - The function to call for each item.
+ *
+ * @returns {Promise<PromiseSettledResult<O>[]>} The outcome of every call, in the order of the items.
+ */
+export async function mapWithConcurrency<I, O>(
+  items: I[],
+  concurrency: number,
+  fn: (item: I) => Promise<O>,
+): Promise<PromiseSettledResult<O>[]> {
+  const results: PromiseSettledResult<O>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index]) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+
+  return results;
+}
@@ -0,0 +1,187 @@
+import { randomBytes } from "node:crypto";
+import { CodecPlugin, CompressionCodec, EncryptionCodec } from "./codec";
+import { Snapshot, StorageAdapter, reviveBuffers } from "./storage-adapter";
+import { createCache } from "./run-cache";
+
+const largeValue = { text: "run-cache ".repeat(500), list: [1, 2, 3] };
+
+describe("CompressionCodec", () => {
+  it.each(["gzip", "brotli"] as const)(
+    "should compress payloads above the threshold with %s",
+    async (algorithm) => {
+      const codec = new CompressionCodec({ algorithm, threshold: 100 });
+      const data = Buffer.from(JSON.stringify(largeValue));
+
+      const compressed = (await codec.encode(data)) as Buffer;
+
+      expect(compressed.length).toBeLessThan(data.length);
+      await expect(codec.decode(compressed)).resolves.toStrictEqual(data);
+      await expect(codec.encode(Buffer.from("small"))).resolves.toBeUndefined();
+    },
+  );
+
+  it("should skip payloads that don't shrink", async () => {
+    const codec = new CompressionCodec({ threshold: 0 });
+
+    await expect(codec.encode(randomBytes(64))).resolves.toBeUndefined();
+  });
+
+  it("should reject invalid options", () => {
+    expect(() => new CompressionCodec({ threshold: -1 })).toThrow(
+      "Value `threshold` cannot be negative",
+    );
+    expect(() => new CompressionCodec({ algorithm: "zip" as "gzip" })).toThrow(
+      "Unknown compression algorithm `zip`",
+    );
+  });
+});
+
+describe("EncryptionCodec", () => {
+  const current = { id: "2026", key: randomBytes(32) };
+  const previous = { id: "2025", key: randomBytes(32) };
+
+  it("should decrypt values encrypted with a rotated key", () => {
+    const data = Buffer.from("secret token");
+
+    const old = new EncryptionCodec({ keys: [previous] });
+    const rotated = new EncryptionCodec({ keys: [current, previous] });
+
+    const encrypted = old.encode(data);
+
+    expect(encrypted.includes(data)).toStrictEqual(false);
+    expect(rotated.decode(encrypted)).toStrictEqual(data);
+    expect(rotated.decode(rotated.encode(data))).toStrictEqual(data);
+    expect(() => old.decode(rotated.encode(data))).toThrow(
+      "Unknown encryption key `2026`",
+    );
+  });
+
+  it("should reject tampered values", () => {
+    const codec = new EncryptionCodec({ keys: [current] });
+    const encrypted = codec.encode(Buffer.from("secret token"));
+
+    encrypted[encrypted.length - 1] ^= 1;
+
+    expect(() => codec.decode(encrypted)).toThrow();
+  });
+
+  it("should reject invalid keys", () => {
+    expect(() => new EncryptionCodec({ keys: [] })).toThrow(
+      "At least one encryption key is required",
+    );
+    expect(
+      () => new EncryptionCodec({ keys: [{ id: "1", key: randomBytes(16) }] }),
+    ).toThrow("Encryption keys must be 32 bytes long");
+    expect(
+      () => new EncryptionCodec({ keys: [{ id: "", key: randomBytes(32) }] }),
+    ).toThrow("Encryption key ids must be 1 to 255 bytes long");
+    expect(() => new EncryptionCodec({ keys: [current, current] })).toThrow(
+      "Duplicate encryption key id `2026`",
+    );
+  });
+});
+
+describe("CodecPlugin", () => {
+  const createPlugin = <T>(pattern?: string) =>
+    new CodecPlugin<T>(
+      [
+        new CompressionCodec({ threshold: 100 }),
+        new EncryptionCodec({ keys: [{ id: "1", key: randomBytes(32) }] }),
+      ],
+      { pattern },
+    );
+
+  it("should encode values on write and decode them on read", async () => {
+    const cache = createCache<typeof largeValue>();
+    const plugin = createPlugin<typeof largeValue>();
+    const refetched = jest.fn();
+
+    cache.use(plugin);
+    cache.onRefetch(refetched);
+
+    await cache.set({ key: "key", sourceFn: () => largeValue });
+    await cache.refetch("key");
+
+    await expect(cache.get("key")).resolves.toStrictEqual(largeValue);
+
+    const { value } = refetched.mock.calls[0][0];
+
+    expect(Buffer.isBuffer(value)).toStrictEqual(true);
+    expect(value.includes("run-cache")).toStrictEqual(false);
+    await expect(plugin.decode(value)).resolves.toStrictEqual(largeValue);
+  });
+
+  it("should keep plain values out of snapshots", async () => {
+    let saved: Snapshot | undefined;
+    const storage: StorageAdapter = {
+      save: async (snapshot) => {
+        saved = JSON.parse(JSON.stringify(snapshot), reviveBuffers);
+      },
+      load: async () => saved,
+    };
+
+    const plugin = createPlugin<string>();
+    const cache = createCache<string>({ storage });
+
+    cache.use(plugin);
+    await cache.set({ key: "token", value: "secret token" });
+    await cache.save();
+
+    const stored = saved?.entries[0].value as Buffer;
+
+    expect(Buffer.isBuffer(stored)).toStrictEqual(true);
+    expect(stored.includes("secret")).toStrictEqual(false);
+
+    const restored = createCache<string>({ storage });
+    restored.use(plugin);
+    await restored.load();
+
+    await expect(restored.get("token")).resolves.toStrictEqual("secret token");
+  });
+
+  it("should only encode keys matching the pattern", async () => {
+    const cache = createCache<string>();
+    const evicted = jest.fn();
+
+    cache.use(createPlugin("session:*"));
+
+    await cache.set({ key: "session:1", value: "secret" });
+    await cache.set({ key: "public", value: "value" });
+
+    await expect(cache.get("session:1")).resolves.toStrictEqual("secret");
+    await expect(cache.get("public")).resolves.toStrictEqual("value");
+
+    cache.onInvalidate(evicted);
+    cache.deleteByPattern("*");
+
+    expect(evicted).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "public", value: "value" }),
+    );
+    expect(evicted).not.toHaveBeenCalledWith(
+      expect.objectContaining({ value: "secret" }),
+    );
+  });
+
+  it("should store undefined without encoding it", async () => {
+    const cache = createCache<string | undefined>();
+    const plugin = createPlugin<string | undefined>();
+
+    cache.use(plugin);
+
+    await expect(
+      cache.set({ key: "key", sourceFn: () => undefined }),
+    ).resolves.toStrictEqual(true);
+    await expect(cache.get("key")).resolves.toBeUndefined();
+    await expect(plugin.encode(undefined)).rejects.toThrow(
+      "Cannot encode `undefined`",
+    );
+  });
+
+  it("should fail to decode values of unknown codecs", async () => {
+    const encoded = await createPlugin<string>().encode("secret");
+
+    await expect(new CodecPlugin<string>([]).decode(encoded)).rejects.toThrow(
+      "Unknown codec `aes-256-gcm`",
+    );
+  });
+});
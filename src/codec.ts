@@ -0,0 +1,302 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { promisify } from "node:util";
+import * as zlib from "node:zlib";
+import { KeyPattern, toKeyRegExp } from "./pattern";
+import type { RunCachePlugin } from "./plugin";
+import { reviveBuffers } from "./storage-adapter";
+
+/**
+ * Transforms the serialized form of cached values, e.g. to compress or encrypt them.
+ */
+export interface ValueCodec {
+  /** Stored with every encoded value to pick the codec that decodes it. */
+  readonly name: string;
+  /** Returns `undefined` to leave the data as it is. */
+  encode(data: Buffer): Promise<Buffer | undefined> | Buffer | undefined;
+  decode(data: Buffer): Promise<Buffer> | Buffer;
+}
+
+const compressors = {
+  gzip: {
+    compress: promisify(zlib.gzip),
+    decompress: promisify(zlib.gunzip),
+  },
+  brotli: {
+    compress: promisify(zlib.brotliCompress),
+    decompress: promisify(zlib.brotliDecompress),
+  },
+};
+
+export type CompressionCodecOptions = {
+  /** `gzip` or `brotli`. Defaults to `gzip`. */
+  algorithm?: keyof typeof compressors;
+  /** Values with fewer bytes once serialized are stored uncompressed. Defaults to `1024`. */
+  threshold?: number;
+};
+
+/**
+ * Compresses values with `node:zlib` once they reach a size threshold.
+ */
+export class CompressionCodec implements ValueCodec {
+  readonly name: string;
+
+  private algorithm: keyof typeof compressors;
+  private threshold: number;
+
+  constructor({
+    algorithm = "gzip",
+    threshold = 1024,
+  }: CompressionCodecOptions = {}) {
+    if (!compressors[algorithm]) {
+      throw new Error(`Unknown compression algorithm \`${algorithm}\``);
+    }
+
+    if (threshold < 0) {
+      throw new Error("Value `threshold` cannot be negative");
+    }
+
+    this.name = algorithm;
+    this.algorithm = algorithm;
+    this.threshold = threshold;
+  }
+
+  async encode(data: Buffer): Promise<Buffer | undefined> {
+    if (data.length < this.threshold) return undefined;
+
+    const compressed = await compressors[this.algorithm].compress(data);
+
+    // Small or random payloads may grow when compressed
+    return compressed.length < data.length ? compressed : undefined;
+  }
+
+  decode(data: Buffer): Promise<Buffer> {
+    return compressors[this.algorithm].decompress(data);
+  }
+}
+
+export type EncryptionKey = {
+  /** Stored with every encrypted value to find the key that decrypts it. */
+  id: string;
+  /** A 32-byte key. */
+  key: Buffer;
+};
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Encrypts values with AES-256-GCM.
+ *
+ * The first key encrypts new values, the others only decrypt values encrypted before a rotation. Put a new key
+ * first and keep the previous ones until every value encrypted with them has expired or been rewritten.
+ */
+export class EncryptionCodec implements ValueCodec {
+  readonly name = "aes-256-gcm";
+
+  private keys: Map<string, Buffer> = new Map<string, Buffer>();
+
+  /**
+   * @param {Object} options - Options for the codec.
+   * @param {EncryptionKey[]} options.keys - The keys by id, the first one encrypts.
+   *
+   * @throws {Error} If no key is given, a key is not 32 bytes long or an id is empty, longer than 255 bytes or not unique.
+   */
+  constructor({ keys }: { keys: EncryptionKey[] }) {
+    if (!keys?.length) {
+      throw new Error("At least one encryption key is required");
+    }
+
+    keys.forEach(({ id, key }) => {
+      if (!id || Buffer.byteLength(id) > 255) {
+        throw new Error("Encryption key ids must be 1 to 255 bytes long");
+      }
+
+      if (this.keys.has(id)) {
+        throw new Error(`Duplicate encryption key id \`${id}\``);
+      }
+
+      if (key?.length !== 32) {
+        throw new Error("Encryption keys must be 32 bytes long");
+      }
+
+      this.keys.set(id, key);
+    });
+  }
+
+  encode(data: Buffer): Buffer {
+    const [id, key] = this.keys.entries().next().value as [string, Buffer];
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+    const idBytes = Buffer.from(id);
+
+    return Buffer.concat([
+      Buffer.from([idBytes.length]),
+      idBytes,
+      iv,
+      cipher.getAuthTag(),
+      encrypted,
+    ]);
+  }
+
+  decode(data: Buffer): Buffer {
+    const idLength = data[0];
+    const id = data.subarray(1, 1 + idLength).toString();
+    const key = this.keys.get(id);
+
+    if (!key) {
+      throw new Error(`Unknown encryption key \`${id}\``);
+    }
+
+    let offset = 1 + idLength;
+    const iv = data.subarray(offset, (offset += IV_LENGTH));
+    const authTag = data.subarray(offset, (offset += AUTH_TAG_LENGTH));
+
+    const decipher = createDecipheriv("aes-256-gcm", key, iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([
+      decipher.update(data.subarray(offset)),
+      decipher.final(),
+    ]);
+  }
+}
+
+// Marks buffers holding an encoded value, followed by the names of the codecs that were applied
+const MAGIC = Buffer.from("RCV1");
+
+const isEncoded = (value: unknown): value is Buffer =>
+  Buffer.isBuffer(value) &&
+  value.length > MAGIC.length &&
+  value.subarray(0, MAGIC.length).equals(MAGIC);
+
+/**
+ * A plugin that serializes values to JSON and runs them through codecs before they are stored, and reverses the codecs on read.
+ * Codecs are applied in order on write, e.g. compression before encryption.
+ *
+ * Cached entries hold the encoded buffer, so event listeners, `entries()`, `inspect()`, snapshots and the `remote` store
+ * never see the plain value, although they are typed as `T`. Use `decode()` where the plain value is needed, e.g. in an
+ * event listener. `get()` and the `previousValue` of source functions are decoded already. Values must be
+ * JSON-serializable, buffers are restored as buffers. `undefined` is stored as it is.
+ */
+export class CodecPlugin<T = unknown> implements RunCachePlugin<T> {
+  private codecs: Map<string, ValueCodec> = new Map<string, ValueCodec>();
+  private pattern?: RegExp;
+
+  /**
+   * @param {ValueCodec[]} codecs - The codecs to apply, in order.
+   * @param {Object} [options] - Options for the plugin.
+   * @param {KeyPattern} [options.pattern] - Only encode the values of keys matching this glob or regular expression.
+   *
+   * @throws {Error} If two codecs have the same name.
+   */
+  constructor(codecs: ValueCodec[], options: { pattern?: KeyPattern } = {}) {
+    codecs.forEach((codec) => {
+      if (this.codecs.has(codec.name)) {
+        throw new Error(`Duplicate codec \`${codec.name}\``);
+      }
+
+      this.codecs.set(codec.name, codec);
+    });
+
+    this.pattern =
+      options.pattern !== undefined ? toKeyRegExp(options.pattern) : undefined;
+  }
+
+  async beforeSet({
+    key,
+    value,
+  }: {
+    key: string;
+    value: T;
+  }): Promise<{ value: T } | void> {
+    // `undefined` has no JSON form, keep it as it is like a miss
+    if (!this.matches(key) || value === undefined) return;
+
+    return { value: this.asStored(await this.encode(value)) };
+  }
+
+  async afterGet({
+    key,
+    value,
+  }: {
+    key: string;
+    value: T | undefined;
+  }): Promise<{ value: T | undefined } | void> {
+    if (!this.matches(key) || !isEncoded(value)) return;
+
+    return { value: await this.decode(value) };
+  }
+
+  /**
+   * Encodes a value the way it is stored.
+   *
+   * @throws {Error} If the value is `undefined`, which has no JSON form.
+   */
+  async encode(value: T): Promise<Buffer> {
+    if (value === undefined) throw new Error("Cannot encode `undefined`");
+
+    let data = Buffer.from(JSON.stringify(value));
+    const applied: string[] = [];
+
+    for (const codec of this.codecs.values()) {
+      const encoded = await codec.encode(data);
+
+      if (encoded) {
+        data = encoded;
+        applied.push(codec.name);
+      }
+    }
+
+    return Buffer.concat([
+      MAGIC,
+      Buffer.from([applied.length]),
+      ...applied.map((name) => {
+        const nameBytes = Buffer.from(name);
+        return Buffer.concat([Buffer.from([nameBytes.length]), nameBytes]);
+      }),
+      data,
+    ]);
+  }
+
+  /**
+   * Decodes a stored value, such as the `value` of an event. Values that were not encoded are returned as they are.
+   *
+   * @throws {Error} If the value was encoded with a codec this plugin doesn't have, or can't be decrypted.
+   */
+  async decode(value: unknown): Promise<T> {
+    if (!isEncoded(value)) return value as T;
+
+    let offset = MAGIC.length;
+    const applied: string[] = [];
+
+    for (let count = value[offset++]; count > 0; count--) {
+      const length = value[offset++];
+      applied.push(value.subarray(offset, (offset += length)).toString());
+    }
+
+    let data = value.subarray(offset);
+
+    for (const name of applied.reverse()) {
+      const codec = this.codecs.get(name);
+
+      if (!codec) {
+        throw new Error(`Unknown codec \`${name}\``);
+      }
+
+      data = await codec.decode(data);
+    }
+
+    return JSON.parse(data.toString(), reviveBuffers);
+  }
+
+  // The cache stores the buffer in place of the value, `decode()` and `afterGet()` turn it back into a `T`
+  private asStored(encoded: Buffer): T {
+    return encoded as unknown as T;
+  }
+
+  private matches(key: string): boolean {
+    return !this.pattern || this.pattern.test(key);
+  }
+}
@@ -0,0 +1,151 @@
+import {
+  DELETE_CAUSE,
+  DependencyCycleError,
+  EVENT,
+  createCache,
+} from "./run-cache";
+
+describe("RunCache dependencies", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("should invalidate dependents in topological order when a parent is deleted", async () => {
+    const cache = createCache<string>();
+    const invalidated = jest.fn();
+
+    cache.on(EVENT.INVALIDATE, invalidated);
+
+    await cache.set({ key: "user", value: "user" });
+    await cache.set({ key: "profile", value: "profile", dependsOn: ["user"] });
+    await cache.set({
+      key: "page",
+      value: "page",
+      dependsOn: ["user", "profile"],
+    });
+    await cache.set({ key: "other", value: "other" });
+
+    expect(cache.delete("user")).toBe(true);
+
+    expect(cache.keys()).toStrictEqual(["other"]);
+    expect(invalidated.mock.calls.map(([params]) => params)).toStrictEqual([
+      expect.objectContaining({ key: "profile", parent: "user" }),
+      expect.objectContaining({ key: "page", parent: "user" }),
+    ]);
+  });
+
+  it("should invalidate dependents when a parent expires", async () => {
+    const cache = createCache<string>({ activeExpiry: true });
+    const deleted = jest.fn();
+
+    cache.on(EVENT.DELETE, deleted);
+
+    await cache.set({ key: "token", value: "token", ttl: 100 });
+    await cache.set({ key: "client", value: "client", dependsOn: ["token"] });
+
+    jest.advanceTimersByTime(101);
+
+    expect(await cache.get("client")).toBeUndefined();
+    expect(deleted).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        key: "client",
+        cause: DELETE_CAUSE.INVALIDATE,
+        parent: "token",
+      }),
+    );
+  });
+
+  it("should invalidate dependents when an expired parent can't be refetched", async () => {
+    const cache = createCache<string>();
+
+    await cache.set({ key: "token", value: "token", ttl: 100 });
+    await cache.set({ key: "client", value: "client", dependsOn: ["token"] });
+
+    jest.advanceTimersByTime(100);
+
+    expect(cache.keys()).toStrictEqual(["token"]);
+  });
+
+  it("should refetch dependents after their parents", async () => {
+    const cache = createCache<string>();
+    const calls: string[] = [];
+    const refetched = jest.fn();
+
+    cache.onRefetch(refetched);
+
+    let version = 0;
+    const source = (key: string) => () => {
+      calls.push(key);
+      return `${key}:${version}`;
+    };
+
+    await cache.set({ key: "a", sourceFn: source("a") });
+    await cache.set({ key: "c", sourceFn: source("c"), dependsOn: ["a", "b"] });
+    await cache.set({ key: "b", sourceFn: source("b"), dependsOn: ["a"] });
+    await cache.set({ key: "static", value: "static", dependsOn: ["b"] });
+
+    calls.length = 0;
+    version = 1;
+
+    expect(await cache.refetch("a")).toBe(true);
+
+    expect(calls).toStrictEqual(["a", "b", "c"]);
+    expect(await cache.get("c")).toBe("c:1");
+    expect(await cache.get("static")).toBeUndefined();
+    expect(refetched.mock.calls.map(([params]) => params)).toStrictEqual([
+      expect.not.objectContaining({ parent: expect.anything() }),
+      expect.objectContaining({ key: "b", parent: "a" }),
+      expect.objectContaining({ key: "c", parent: "a" }),
+    ]);
+  });
+
+  it("should reject dependency cycles", async () => {
+    const cache = createCache<string>();
+
+    await cache.set({ key: "a", value: "a", dependsOn: ["c"] });
+    await cache.set({ key: "b", value: "b", dependsOn: ["a"] });
+
+    const error = await cache
+      .set({ key: "c", value: "c", dependsOn: ["b"] })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(DependencyCycleError);
+    expect(error.cycle).toStrictEqual(["c", "b", "a", "c"]);
+    expect(error.message).toBe("Dependency cycle: c -> b -> a -> c");
+
+    await expect(
+      cache.set({ key: "self", value: "self", dependsOn: ["self"] }),
+    ).rejects.toThrow("Dependency cycle: self -> self");
+    await expect(
+      cache.set({ key: "key", value: "value", dependsOn: [""] }),
+    ).rejects.toThrow("Empty key in `dependsOn`");
+
+    await expect(cache.has("c")).resolves.toBe(false);
+  });
+
+  it("should prefix dependencies in namespaces", async () => {
+    const cache = createCache<string>();
+    const users = cache.namespace("users");
+    const invalidated = jest.fn();
+
+    users.onInvalidate(invalidated);
+
+    await users.set({ key: "42", value: "user" });
+    await users.set({ key: "42:posts", value: "posts", dependsOn: ["42"] });
+
+    expect(cache.inspect("users:42:posts")?.dependsOn).toStrictEqual([
+      "users:42",
+    ]);
+
+    users.delete("42");
+
+    expect(invalidated).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "42:posts", parent: "42" }),
+    );
+  });
+});
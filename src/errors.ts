@@ -0,0 +1,129 @@
+/**
+ * Thrown when every attempt of a source function has failed.
+ */
+export class RetryError extends Error {
+  readonly attempts: number;
+  readonly cause: unknown;
+
+  constructor(attempts: number, cause: unknown) {
+    super(`Failed after ${attempts} attempt(s)`);
+
+    this.name = "RetryError";
+    this.attempts = attempts;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown instead of calling the source function while its circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  constructor() {
+    super("Circuit is open");
+
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Thrown by the cache when the source function of a key could not produce a value.
+ * `cause` holds the error of the last attempt and `attempts` how many calls were made.
+ */
+export class SourceFnError extends Error {
+  readonly key: string;
+  readonly attempts: number;
+  readonly cause: unknown;
+
+  constructor(key: string, attempts: number, cause: unknown) {
+    super(`Source function failed for key: '${key}'`);
+
+    this.name = "SourceFnError";
+    this.key = key;
+    this.attempts = attempts;
+    this.cause = cause;
+  }
+
+  /**
+   * Wraps an error rejected by `retry()` or the circuit breaker, unwrapping the original cause.
+   */
+  static from(key: string, error: unknown): SourceFnError {
+    if (error instanceof RetryError) {
+      return new SourceFnError(key, error.attempts, error.cause);
+    }
+
+    return new SourceFnError(
+      key,
+      error instanceof CircuitOpenError ? 0 : 1,
+      error,
+    );
+  }
+}
+
+/**
+ * An error reply of a server speaking the Redis protocol, such as `ERR unknown command`.
+ */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    this.name = "RespError";
+  }
+}
+
+/**
+ * Thrown by `set()` when the `dependsOn` keys of an entry lead back to the entry itself.
+ */
+export class DependencyCycleError extends Error {
+  /** The keys of the cycle, starting and ending with the key being set. */
+  readonly cycle: string[];
+
+  constructor(cycle: string[]) {
+    super(`Dependency cycle: ${cycle.join(" -> ")}`);
+
+    this.name = "DependencyCycleError";
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Ends a change stream whose buffer filled up because its records were not consumed fast enough.
+ */
+export class WatchOverflowError extends Error {
+  readonly bufferSize: number;
+
+  constructor(bufferSize: number) {
+    super(`Change stream buffer of ${bufferSize} records overflowed`);
+
+    this.name = "WatchOverflowError";
+    this.bufferSize = bufferSize;
+  }
+}
+
+/**
+ * Thrown when a source function or one of its attempts did not settle within its `timeout`.
+ * The signal passed to the source function is aborted with it as the reason.
+ */
+export class TimeoutError extends Error {
+  readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`Timed out after ${timeout}ms`);
+
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The reason a source function is aborted with when its key is deleted or the cache is flushed while it runs.
+ */
+export class AbortError extends Error {
+  readonly key: string;
+
+  constructor(key: string) {
+    super(`Fetch aborted for key: '${key}'`);
+
+    this.name = "AbortError";
+    this.key = key;
+  }
+}
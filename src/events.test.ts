@@ -0,0 +1,205 @@
+import {
+  DELETE_CAUSE,
+  EVENT,
+  EVICTION_REASON,
+  SET_CAUSE,
+  createCache,
+} from "./run-cache";
+
+describe("RunCache events", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("should emit set with the cause and previous value", async () => {
+    const cache = createCache<string>();
+    const set = jest.fn();
+
+    cache.on(EVENT.SET, set);
+
+    await cache.set({ key: "key", value: "first" });
+    await cache.set({ key: "key", sourceFn: () => "second" });
+    await cache.refetch("key");
+
+    expect(set).toHaveBeenCalledTimes(3);
+    expect(set.mock.calls[0][0]).toStrictEqual(
+      expect.objectContaining({ key: "key", value: "first", cause: "set" }),
+    );
+    expect(set.mock.calls[0][0]).not.toHaveProperty("previousValue");
+    expect(set.mock.calls[1][0]).toStrictEqual(
+      expect.objectContaining({
+        value: "second",
+        previousValue: "first",
+        cause: SET_CAUSE.SET,
+      }),
+    );
+    expect(set.mock.calls[2][0]).toStrictEqual(
+      expect.objectContaining({
+        previousValue: "second",
+        cause: SET_CAUSE.REFETCH,
+      }),
+    );
+  });
+
+  it("should emit delete with the cause of the removal", async () => {
+    const cache = createCache<string>({ maxEntries: 1 });
+    const deleted = jest.fn();
+
+    cache.on(EVENT.DELETE, deleted);
+
+    await cache.set({ key: "a", value: "a" });
+    await cache.set({ key: "b", value: "b", ttl: 100, tags: ["tag"] });
+    cache.invalidateByTag("tag");
+    await cache.set({ key: "c", value: "c", ttl: 100 });
+    jest.advanceTimersByTime(101);
+    await cache.get("c");
+    await cache.set({ key: "d", value: "d" });
+    cache.delete("d");
+
+    expect(deleted.mock.calls.map(([params]) => params)).toStrictEqual([
+      expect.objectContaining({ key: "a", cause: DELETE_CAUSE.EVICT }),
+      expect.objectContaining({ key: "b", cause: DELETE_CAUSE.INVALIDATE }),
+      expect.objectContaining({ key: "c", cause: DELETE_CAUSE.EXPIRE }),
+      expect.objectContaining({ key: "d", value: "d", cause: "delete" }),
+    ]);
+  });
+
+  it("should emit flush once for all entries", async () => {
+    const cache = createCache();
+    const flushed = jest.fn();
+    const deleted = jest.fn();
+
+    cache.on(EVENT.FLUSH, flushed);
+    cache.on(EVENT.DELETE, deleted);
+
+    await cache.set({ key: "a", value: "a" });
+    await cache.set({ key: "b", value: "b" });
+    cache.flush();
+
+    expect(flushed).toHaveBeenCalledWith({ entries: 2 });
+    expect(deleted).not.toHaveBeenCalled();
+    expect(() => cache.on(EVENT.FLUSH, flushed, { key: "a" })).toThrow(
+      "`key` is not supported for the `flush` event",
+    );
+  });
+
+  it("should emit hit and miss", async () => {
+    const cache = createCache();
+    const hit = jest.fn();
+    const miss = jest.fn();
+
+    cache.on(EVENT.HIT, hit);
+    cache.on(EVENT.MISS, miss);
+
+    await cache.set({ key: "key", value: "value" });
+    await cache.get("key");
+    await cache.get("missing");
+
+    expect(hit).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "key", value: "value" }),
+    );
+    expect(miss).toHaveBeenCalledWith({ key: "missing" });
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it("should filter listeners by key, glob and regular expression", async () => {
+    const cache = createCache();
+    const exact = jest.fn();
+    const glob = jest.fn();
+    const regExp = jest.fn();
+
+    cache.on(EVENT.SET, exact, { key: "user:1" });
+    cache.on(EVENT.SET, glob, { key: "user:*" });
+    cache.on(EVENT.SET, regExp, { key: /^post:\d+$/ });
+
+    await cache.set({ key: "user:1", value: "1" });
+    await cache.set({ key: "user:2", value: "2" });
+    await cache.set({ key: "post:1", value: "3" });
+
+    expect(exact).toHaveBeenCalledTimes(1);
+    expect(glob).toHaveBeenCalledTimes(2);
+    expect(regExp).toHaveBeenCalledTimes(1);
+    expect(regExp).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "post:1" }),
+    );
+  });
+
+  it("should remove listeners with the returned function, off() and once()", async () => {
+    const cache = createCache();
+    const unsubscribed = jest.fn();
+    const removed = jest.fn();
+    const once = jest.fn();
+    const onceByPattern = jest.fn();
+    const expiry = jest.fn();
+
+    const unsubscribe = cache.on(EVENT.SET, unsubscribed);
+    cache.on(EVENT.SET, removed, { key: "user:*" });
+    cache.once(EVENT.SET, once);
+    cache.once(EVENT.SET, onceByPattern, { key: "user:*" });
+    const removeExpiry = cache.onExpiry(expiry);
+
+    await cache.set({ key: "post:1", value: "1" });
+
+    unsubscribe();
+    cache.off(EVENT.SET, removed, { key: "user:*" });
+    removeExpiry();
+
+    await cache.set({ key: "user:1", value: "1", ttl: 100 });
+    await cache.set({ key: "user:2", value: "2" });
+    jest.advanceTimersByTime(101);
+
+    expect(unsubscribed).toHaveBeenCalledTimes(1);
+    expect(removed).not.toHaveBeenCalled();
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(onceByPattern).toHaveBeenCalledTimes(1);
+    expect(onceByPattern).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "user:1" }),
+    );
+    expect(expiry).not.toHaveBeenCalled();
+  });
+
+  it("should only remove the listener registered with the same key in off()", async () => {
+    const cache = createCache();
+    const scoped = jest.fn();
+    const unscoped = jest.fn();
+
+    cache.on(EVENT.SET, scoped, { key: "a:*" });
+    cache.on(EVENT.SET, scoped, { key: "b:*" });
+    cache.on(EVENT.SET, unscoped);
+
+    cache.off(EVENT.SET, scoped, { key: "a:*" });
+    cache.off(EVENT.SET, unscoped, { key: "zzz:*" });
+
+    await cache.set({ key: "a:1", value: "1" });
+    await cache.set({ key: "b:1", value: "1" });
+
+    expect(scoped).toHaveBeenCalledTimes(1);
+    expect(scoped).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "b:1" }),
+    );
+    expect(unscoped).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep evict and invalidate payloads", async () => {
+    const cache = createCache({ maxEntries: 1 });
+    const evicted = jest.fn();
+
+    cache.on(EVENT.EVICT, evicted, { key: "a" });
+
+    await cache.set({ key: "a", value: "a" });
+    await cache.set({ key: "b", value: "b" });
+
+    expect(evicted).toHaveBeenCalledWith(
+      expect.objectContaining({
+        key: "a",
+        value: "a",
+        reason: EVICTION_REASON.MAX_ENTRIES,
+      }),
+    );
+  });
+});
@@ -0,0 +1,128 @@
+export type EventParam<T = unknown> = {
+  key: string;
+  value: T;
+  ttl?: number;
+  createAt: number;
+  updateAt: number;
+};
+
+export const EVICTION_REASON = Object.freeze({
+  MAX_ENTRIES: "max-entries",
+  MAX_SIZE: "max-size",
+});
+
+export type EvictionReason =
+  (typeof EVICTION_REASON)[keyof typeof EVICTION_REASON];
+
+export const SET_CAUSE = Object.freeze({
+  /** `set()`, `getOrSet()`, `mset()` or the loader of `mget()`. */
+  SET: "set",
+  REFETCH: "refetch",
+  /** Restored from a snapshot by `load()`. */
+  LOAD: "load",
+  /** Copied from the `remote` store. */
+  REMOTE: "remote",
+});
+
+export type SetCause = (typeof SET_CAUSE)[keyof typeof SET_CAUSE];
+
+export const DELETE_CAUSE = Object.freeze({
+  /** `delete()`, `mdelete()` or a `delete()` of another instance on the invalidation transport. */
+  DELETE: "delete",
+  EXPIRE: "expire",
+  EVICT: "evict",
+  /**
+   * `invalidateByTag()`, `deleteByPattern()`, a `refetch()` of another instance for an entry without a source function,
+   * or a change of an entry listed in `dependsOn`.
+   */
+  INVALIDATE: "invalidate",
+});
+
+export type DeleteCause = (typeof DELETE_CAUSE)[keyof typeof DELETE_CAUSE];
+
+export type SetEventParam<T = unknown> = EventParam<T> & {
+  cause: SetCause;
+  /** The value the entry held before, if it existed. */
+  previousValue?: T;
+};
+
+export type DeleteEventParam<T = unknown> = EventParam<T> & {
+  cause: DeleteCause;
+  /** The key whose deletion, expiry or refetch removed the entry through `dependsOn`. */
+  parent?: string;
+};
+
+export type FlushEventParam = {
+  /** The number of entries that were removed. */
+  entries: number;
+};
+
+export type MissEventParam = {
+  key: string;
+};
+
+export type EvictEventParam<T = unknown> = EventParam<T> & {
+  reason: EvictionReason;
+};
+
+export type RefetchFailureEventParam<T = unknown> = EventParam<T> & {
+  attempts: number;
+  error: unknown;
+};
+
+export type InvalidateEventParam<T = unknown> = EventParam<T> & {
+  tag?: string;
+  pattern?: string;
+  /** The key whose deletion, expiry or refetch invalidated the entry through `dependsOn`. */
+  parent?: string;
+};
+
+export type RefetchEventParam<T = unknown> = EventParam<T> & {
+  /** The key whose refetch triggered this one through `dependsOn`. */
+  parent?: string;
+};
+
+export const EVENT = Object.freeze({
+  EXPIRE: "expire",
+  REFETCH: "refetch",
+  REFETCH_FAILURE: "refetch-failure",
+  EVICT: "evict",
+  INVALIDATE: "invalidate",
+  SET: "set",
+  DELETE: "delete",
+  FLUSH: "flush",
+  HIT: "hit",
+  MISS: "miss",
+});
+
+export type EventName = (typeof EVENT)[keyof typeof EVENT];
+
+export type EventFn<T = unknown> = (
+  params: EventParam<T>,
+) => Promise<void> | void;
+export type EvictEventFn<T = unknown> = (
+  params: EvictEventParam<T>,
+) => Promise<void> | void;
+export type RefetchFailureEventFn<T = unknown> = (
+  params: RefetchFailureEventParam<T>,
+) => Promise<void> | void;
+export type InvalidateEventFn<T = unknown> = (
+  params: InvalidateEventParam<T>,
+) => Promise<void> | void;
+
+export type EventParamMap<T = unknown> = {
+  [EVENT.EXPIRE]: EventParam<T>;
+  [EVENT.REFETCH]: RefetchEventParam<T>;
+  [EVENT.REFETCH_FAILURE]: RefetchFailureEventParam<T>;
+  [EVENT.EVICT]: EvictEventParam<T>;
+  [EVENT.INVALIDATE]: InvalidateEventParam<T>;
+  [EVENT.SET]: SetEventParam<T>;
+  [EVENT.DELETE]: DeleteEventParam<T>;
+  [EVENT.FLUSH]: FlushEventParam;
+  [EVENT.HIT]: EventParam<T>;
+  [EVENT.MISS]: MissEventParam;
+};
+
+export type EventListener<T = unknown, E extends EventName = EventName> = (
+  params: EventParamMap<T>[E],
+) => Promise<void> | void;
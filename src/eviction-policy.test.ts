@@ -0,0 +1,122 @@
+import {
+  EVICTION_POLICY,
+  EvictionPolicyName,
+  FifoPolicy,
+  LfuPolicy,
+  LruPolicy,
+  createEvictionPolicy,
+} from "./eviction-policy";
+
+describe("EvictionPolicy", () => {
+  describe("LruPolicy", () => {
+    it("should pick the least recently used key", () => {
+      const policy = new LruPolicy();
+
+      policy.onSet("a");
+      policy.onSet("b");
+      policy.onSet("c");
+      policy.onAccess("a");
+
+      expect(policy.victim()).toStrictEqual("b");
+
+      policy.onDelete("b");
+
+      expect(policy.victim()).toStrictEqual("c");
+    });
+
+    it("should move a key to the end when its value is replaced", () => {
+      const policy = new LruPolicy();
+
+      policy.onSet("a");
+      policy.onSet("b");
+      policy.onSet("a");
+
+      expect(policy.victim()).toStrictEqual("b");
+    });
+  });
+
+  describe("LfuPolicy", () => {
+    it("should pick the least frequently used key", () => {
+      const policy = new LfuPolicy();
+
+      policy.onSet("a");
+      policy.onSet("b");
+      policy.onSet("c");
+      policy.onAccess("a");
+      policy.onAccess("a");
+      policy.onAccess("c");
+
+      expect(policy.victim()).toStrictEqual("b");
+
+      policy.onDelete("b");
+
+      expect(policy.victim()).toStrictEqual("c");
+    });
+
+    it("should prefer the oldest key among keys with the same frequency", () => {
+      const policy = new LfuPolicy();
+
+      policy.onSet("a");
+      policy.onSet("b");
+      policy.onAccess("a");
+      policy.onAccess("b");
+
+      expect(policy.victim()).toStrictEqual("a");
+    });
+
+    it("should skip the excluded key", () => {
+      const policy = new LfuPolicy();
+
+      policy.onSet("a");
+      policy.onSet("b");
+      policy.onAccess("a");
+      policy.onAccess("b");
+      policy.onSet("c");
+
+      expect(policy.victim()).toStrictEqual("c");
+      expect(policy.victim("c")).toStrictEqual("a");
+    });
+
+    it("should return undefined when empty", () => {
+      const policy = new LfuPolicy();
+
+      policy.onSet("a");
+      policy.onDelete("a");
+
+      expect(policy.victim()).toBeUndefined();
+    });
+  });
+
+  describe("FifoPolicy", () => {
+    it("should pick the first inserted key regardless of access", () => {
+      const policy = new FifoPolicy();
+
+      policy.onSet("a");
+      policy.onSet("b");
+      policy.onAccess("a");
+      policy.onSet("a");
+
+      expect(policy.victim()).toStrictEqual("a");
+    });
+  });
+
+  describe("createEvictionPolicy()", () => {
+    it("should create the built-in policies by name", () => {
+      expect(createEvictionPolicy(EVICTION_POLICY.LRU)).toBeInstanceOf(
+        LruPolicy,
+      );
+      expect(createEvictionPolicy(EVICTION_POLICY.LFU)).toBeInstanceOf(
+        LfuPolicy,
+      );
+      expect(createEvictionPolicy(EVICTION_POLICY.FIFO)).toBeInstanceOf(
+        FifoPolicy,
+      );
+    });
+
+    it("should throw an error for an unknown policy", () => {
+      expect(() =>
+        createEvictionPolicy("random" as EvictionPolicyName),
+      ).toThrow("Unknown eviction policy: 'random'");
+    });
+  });
+});
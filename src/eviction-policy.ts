@@ -0,0 +1,213 @@
+export const EVICTION_POLICY = Object.freeze({
+  LRU: "lru",
+  LFU: "lfu",
+  FIFO: "fifo",
+});
+
+export type EvictionPolicyName =
+  (typeof EVICTION_POLICY)[keyof typeof EVICTION_POLICY];
+
+/**
+ * Decides which key gets evicted when a cache grows beyond its limits.
+ *
+ * The cache notifies the policy about every write, read and removal, and asks it for a victim
+ * whenever `maxEntries` or `maxSizeBytes` is exceeded.
+ */
+export interface EvictionPolicy {
+  /** Called when a key is inserted or its value is replaced. */
+  onSet(key: string): void;
+  /** Called when a key is read successfully. */
+  onAccess(key: string): void;
+  /** Called when a key leaves the cache for any reason, including evictions. */
+  onDelete(key: string): void;
+  /**
+   * Returns the key that should be evicted next, or `undefined` if there is nothing to evict.
+   * `exclude` is the key being written, which must not be picked.
+   */
+  victim(exclude?: string): string | undefined;
+  /** Forgets every tracked key. */
+  clear(): void;
+}
+
+function firstKey(
+  keys: Set<string> | undefined,
+  exclude?: string,
+): string | undefined {
+  for (const key of keys ?? []) {
+    if (key !== exclude) return key;
+  }
+
+  return undefined;
+}
+
+/**
+ * Evicts the key that has not been written or read for the longest time.
+ */
+export class LruPolicy implements EvictionPolicy {
+  private keys: Set<string> = new Set<string>();
+
+  onSet(key: string): void {
+    this.keys.delete(key);
+    this.keys.add(key);
+  }
+
+  onAccess(key: string): void {
+    if (!this.keys.has(key)) return;
+
+    this.keys.delete(key);
+    this.keys.add(key);
+  }
+
+  onDelete(key: string): void {
+    this.keys.delete(key);
+  }
+
+  victim(exclude?: string): string | undefined {
+    return firstKey(this.keys, exclude);
+  }
+
+  clear(): void {
+    this.keys.clear();
+  }
+}
+
+/**
+ * Evicts the key that was read the least number of times. Ties are broken by evicting the
+ * key that reached that frequency first.
+ */
+export class LfuPolicy implements EvictionPolicy {
+  private frequencies: Map<string, number> = new Map<string, number>();
+  private buckets: Map<number, Set<string>> = new Map<number, Set<string>>();
+  private minFrequency = 0;
+
+  onSet(key: string): void {
+    if (this.frequencies.has(key)) {
+      this.onAccess(key);
+      return;
+    }
+
+    this.frequencies.set(key, 1);
+    this.bucket(1).add(key);
+    this.minFrequency = 1;
+  }
+
+  onAccess(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) return;
+
+    this.removeFromBucket(key, frequency);
+
+    if (this.minFrequency === frequency && !this.buckets.has(frequency)) {
+      this.minFrequency = frequency + 1;
+    }
+
+    this.frequencies.set(key, frequency + 1);
+    this.bucket(frequency + 1).add(key);
+  }
+
+  onDelete(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) return;
+
+    this.frequencies.delete(key);
+    this.removeFromBucket(key, frequency);
+
+    if (this.minFrequency === frequency && !this.buckets.has(frequency)) {
+      this.minFrequency = this.buckets.size
+        ? Math.min(...this.buckets.keys())
+        : 0;
+    }
+  }
+
+  victim(exclude?: string): string | undefined {
+    const victim = firstKey(this.buckets.get(this.minFrequency), exclude);
+    if (victim !== undefined) return victim;
+
+    // The excluded key is the only one with the lowest frequency
+    const frequencies = Array.from(this.buckets.keys()).sort((a, b) => a - b);
+
+    for (const frequency of frequencies) {
+      const key = firstKey(this.buckets.get(frequency), exclude);
+      if (key !== undefined) return key;
+    }
+
+    return undefined;
+  }
+
+  clear(): void {
+    this.frequencies.clear();
+    this.buckets.clear();
+    this.minFrequency = 0;
+  }
+
+  private bucket(frequency: number): Set<string> {
+    let bucket = this.buckets.get(frequency);
+
+    if (!bucket) {
+      bucket = new Set<string>();
+      this.buckets.set(frequency, bucket);
+    }
+
+    return bucket;
+  }
+
+  private removeFromBucket(key: string, frequency: number): void {
+    const bucket = this.buckets.get(frequency);
+    if (!bucket) return;
+
+    bucket.delete(key);
+
+    if (!bucket.size) {
+      this.buckets.delete(frequency);
+    }
+  }
+}
+
+/**
+ * Evicts the key that was inserted first. Replacing the value of an existing key does not
+ * change its position.
+ */
+export class FifoPolicy implements EvictionPolicy {
+  private keys: Set<string> = new Set<string>();
+
+  onSet(key: string): void {
+    this.keys.add(key);
+  }
+
+  onAccess(key: string): void {
+    /* Reads don't change the insertion order */
+  }
+
+  onDelete(key: string): void {
+    this.keys.delete(key);
+  }
+
+  victim(exclude?: string): string | undefined {
+    return firstKey(this.keys, exclude);
+  }
+
+  clear(): void {
+    this.keys.clear();
+  }
+}
+
+/**
+ * Creates a built-in eviction policy by name.
+ *
+ * @param {EvictionPolicyName} name - One of `lru`, `lfu` or `fifo`.
+ * @returns {EvictionPolicy} A fresh policy instance.
+ *
+ * @throws {Error} If the policy name is unknown.
+ */
+export function createEvictionPolicy(name: EvictionPolicyName): EvictionPolicy {
+  switch (name) {
+    case EVICTION_POLICY.LRU:
+      return new LruPolicy();
+    case EVICTION_POLICY.LFU:
+      return new LfuPolicy();
+    case EVICTION_POLICY.FIFO:
+      return new FifoPolicy();
+    default:
+      throw new Error(`Unknown eviction policy: '${name}'`);
+  }
+}
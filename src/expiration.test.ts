@@ -0,0 +1,171 @@
+import { EVENT, createCache } from "./run-cache";
+import { Snapshot, StorageAdapter } from "./storage-adapter";
+
+describe("RunCache expiration", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("should push the expiry of sliding entries forward on every hit", async () => {
+    const cache = createCache<string>();
+
+    await cache.set({ key: "session", value: "user", ttl: 100, sliding: true });
+    await cache.set({ key: "fixed", value: "value", ttl: 100 });
+
+    jest.advanceTimersByTime(80);
+    expect(await cache.get("session")).toBe("user");
+    expect(await cache.get("fixed")).toBe("value");
+
+    jest.advanceTimersByTime(80);
+    expect(await cache.has("session")).toBe(true);
+    expect(await cache.get("fixed")).toBeUndefined();
+
+    jest.advanceTimersByTime(101);
+    expect(await cache.get("session")).toBeUndefined();
+  });
+
+  it("should expire sliding entries at maxAge even if they keep being read", async () => {
+    const cache = createCache<string>({ activeExpiry: true });
+    const expired = jest.fn();
+
+    cache.onExpiry(expired);
+
+    await cache.set({
+      key: "session",
+      value: "user",
+      ttl: 100,
+      sliding: true,
+      maxAge: 250,
+    });
+
+    for (let i = 0; i < 4; i += 1) {
+      jest.advanceTimersByTime(60);
+      expect(await cache.get("session")).toBe("user");
+    }
+
+    expect(expired).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(11);
+
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(await cache.get("session")).toBeUndefined();
+  });
+
+  it("should fire the expire event only once a sliding entry is no longer read", async () => {
+    const cache = createCache<string>();
+    const expired = jest.fn();
+
+    cache.onKeyExpiry("session", expired);
+
+    await cache.set({ key: "session", value: "user", ttl: 100, sliding: true });
+
+    jest.advanceTimersByTime(90);
+    await cache.get("session");
+    jest.advanceTimersByTime(90);
+
+    expect(expired).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(11);
+
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+
+  it("should restart the ttl with touch()", async () => {
+    const cache = createCache<string>();
+
+    await cache.set({ key: "key", value: "value", ttl: 100 });
+
+    jest.advanceTimersByTime(80);
+    expect(cache.touch("key")).toBe(true);
+
+    jest.advanceTimersByTime(80);
+    expect(await cache.get("key")).toBe("value");
+
+    expect(cache.touch("key", 500)).toBe(true);
+    jest.advanceTimersByTime(400);
+    expect(await cache.get("key")).toBe("value");
+
+    jest.advanceTimersByTime(101);
+    expect(cache.touch("key")).toBe(false);
+    expect(cache.touch("missing")).toBe(false);
+    expect(() => cache.touch("key", 0)).toThrow(
+      "Value `ttl` must be a positive number",
+    );
+  });
+
+  it("should change the ttl with expire() and remove it with persist()", async () => {
+    const cache = createCache<string>({ activeExpiry: true });
+    const expired = jest.fn();
+
+    cache.on(EVENT.EXPIRE, expired);
+
+    await cache.set({ key: "forever", value: "value" });
+    await cache.set({ key: "temporary", value: "value", ttl: 100 });
+
+    expect(cache.expire("forever", 50)).toBe(true);
+    expect(cache.persist("temporary")).toBe(true);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(await cache.get("forever")).toBeUndefined();
+    expect(await cache.get("temporary")).toBe("value");
+
+    expect(cache.expire("missing", 50)).toBe(false);
+    expect(cache.persist("missing")).toBe(false);
+    expect(() => cache.expire("temporary", -1)).toThrow(
+      "Value `ttl` must be a positive number",
+    );
+  });
+
+  it("should validate the sliding options", async () => {
+    const cache = createCache<string>();
+
+    await expect(
+      cache.set({ key: "key", value: "value", sliding: true }),
+    ).rejects.toThrow("`sliding` is not allowed without a `ttl`");
+    await expect(
+      cache.set({ key: "key", value: "value", maxAge: 0 }),
+    ).rejects.toThrow("Value `maxAge` must be a positive number");
+  });
+
+  it("should keep the sliding state across save() and load()", async () => {
+    let saved: Snapshot | undefined;
+    const storage: StorageAdapter = {
+      save: async (snapshot) => {
+        saved = snapshot;
+      },
+      load: async () => saved,
+    };
+    const cache = createCache<string>({ storage });
+
+    await cache.set({
+      key: "session",
+      value: "user",
+      ttl: 100,
+      sliding: true,
+      maxAge: 1000,
+    });
+
+    jest.advanceTimersByTime(90);
+    await cache.get("session");
+    await cache.save();
+
+    const restored = createCache<string>({ storage });
+    await restored.load();
+
+    jest.advanceTimersByTime(90);
+    expect(await restored.get("session")).toBe("user");
+
+    jest.advanceTimersByTime(1000);
+    expect(await restored.get("session")).toBeUndefined();
+
+    cache.dispose();
+    restored.dispose();
+  });
+});
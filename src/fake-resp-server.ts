@@ -0,0 +1,232 @@
+import * as net from "node:net";
+import { RespError } from "./errors";
+import { RespParser, RespReply, encodeReply } from "./resp";
+
+type StoredValue = {
+  value: string;
+  expiresAt?: number;
+};
+
+const OK = { status: "OK" };
+
+/**
+ * An in-memory server speaking enough of the Redis protocol to back a `RedisStore` in tests:
+ * `PING`, `AUTH`, `GET`, `SET` with `PX`/`EX`, `DEL`, `EXISTS`, `PTTL`, `FLUSHDB`, `PUBLISH`, `SUBSCRIBE`,
+ * `UNSUBSCRIBE` and `QUIT`. Only the tests use it, `tsconfig.json` keeps it out of the build.
+ */
+export class FakeRespServer {
+  private server: net.Server;
+  private sockets: Set<net.Socket> = new Set<net.Socket>();
+  private store: Map<string, StoredValue> = new Map<string, StoredValue>();
+  private subscriptions: Map<string, Set<net.Socket>> = new Map<
+    string,
+    Set<net.Socket>
+  >();
+
+  constructor(private options: { password?: string } = {}) {
+    this.server = net.createServer((socket) => this.handle(socket));
+  }
+
+  /**
+   * Starts listening on the loopback interface.
+   *
+   * @param {number} [port] - The port to listen on. A free port is picked by default.
+   * @returns {Promise<number>} The port the server listens on.
+   */
+  listen(port: number = 0): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, "127.0.0.1", () => {
+        resolve((this.server.address() as net.AddressInfo).port);
+      });
+    });
+  }
+
+  /**
+   * Closes every connection and stops listening.
+   */
+  close(): Promise<void> {
+    this.sockets.forEach((socket) => socket.destroy());
+
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Drops every connection without stopping the server, like a server restart would.
+   */
+  disconnectAll(): void {
+    this.sockets.forEach((socket) => socket.destroy());
+  }
+
+  private handle(socket: net.Socket): void {
+    const parser = new RespParser();
+    let authenticated = this.options.password === undefined;
+
+    this.sockets.add(socket);
+    socket.on("close", () => {
+      this.sockets.delete(socket);
+      this.subscriptions.forEach((sockets) => sockets.delete(socket));
+    });
+    socket.on("error", () => {
+      /* The client went away, `close` cleans up */
+    });
+
+    socket.on("data", (chunk: Buffer) => {
+      let commands: RespReply[];
+
+      try {
+        commands = parser.feed(chunk);
+      } catch (e) {
+        socket.end(encodeReply(new RespError("ERR Protocol error")));
+        return;
+      }
+
+      commands.forEach((command) => {
+        if (!Array.isArray(command) || !command.length) {
+          socket.write(encodeReply(new RespError("ERR Protocol error")));
+          return;
+        }
+
+        const [name, ...args] = command.map(String);
+        const upperName = name.toUpperCase();
+
+        if (upperName === "AUTH") {
+          authenticated = args[0] === this.options.password;
+          socket.write(
+            encodeReply(
+              authenticated ? OK : new RespError("WRONGPASS invalid password"),
+            ),
+          );
+          return;
+        }
+
+        if (!authenticated) {
+          socket.write(
+            encodeReply(new RespError("NOAUTH Authentication required.")),
+          );
+          return;
+        }
+
+        if (upperName === "QUIT") {
+          socket.end(encodeReply(OK));
+          return;
+        }
+
+        if (upperName === "SUBSCRIBE" || upperName === "UNSUBSCRIBE") {
+          args.forEach((channel) => {
+            this.subscribe(socket, channel, upperName === "SUBSCRIBE");
+          });
+          return;
+        }
+
+        socket.write(encodeReply(this.execute(upperName, args)));
+      });
+    });
+  }
+
+  private execute(
+    name: string,
+    args: string[],
+  ): RespReply | { status: string } {
+    switch (name) {
+      case "PING":
+        return { status: "PONG" };
+      case "GET":
+        return this.read(args[0])?.value ?? null;
+      case "SET":
+        return this.write(args);
+      case "DEL":
+        return args.filter((key) => this.read(key) && this.store.delete(key))
+          .length;
+      case "EXISTS":
+        return args.filter((key) => this.read(key)).length;
+      case "PTTL": {
+        const stored = this.read(args[0]);
+        if (!stored) return -2;
+
+        return stored.expiresAt === undefined
+          ? -1
+          : stored.expiresAt - Date.now();
+      }
+      case "PUBLISH": {
+        const sockets = this.subscriptions.get(args[0]) ?? new Set();
+
+        sockets.forEach((socket) => {
+          socket.write(encodeReply(["message", args[0], args[1]]));
+        });
+
+        return sockets.size;
+      }
+      case "FLUSHDB":
+        this.store.clear();
+        return OK;
+      default:
+        return new RespError(`ERR unknown command '${name.toLowerCase()}'`);
+    }
+  }
+
+  private subscribe(
+    socket: net.Socket,
+    channel: string,
+    subscribe: boolean,
+  ): void {
+    let sockets = this.subscriptions.get(channel);
+
+    if (!sockets) {
+      sockets = new Set<net.Socket>();
+      this.subscriptions.set(channel, sockets);
+    }
+
+    if (subscribe) {
+      sockets.add(socket);
+    } else {
+      sockets.delete(socket);
+    }
+
+    const count = Array.from(this.subscriptions.values()).filter((sockets) =>
+      sockets.has(socket),
+    ).length;
+
+    socket.write(
+      encodeReply([subscribe ? "subscribe" : "unsubscribe", channel, count]),
+    );
+  }
+
+  private read(key: string): StoredValue | undefined {
+    const stored = this.store.get(key);
+
+    if (stored?.expiresAt !== undefined && stored.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return undefined;
+    }
+
+    return stored;
+  }
+
+  private write([key, value, ...options]: string[]):
+    | RespReply
+    | {
+        status: string;
+      } {
+    if (key === undefined || value === undefined) {
+      return new RespError("ERR wrong number of arguments for 'set' command");
+    }
+
+    let expiresAt: number | undefined;
+
+    for (let i = 0; i < options.length; i += 2) {
+      const option = options[i].toUpperCase();
+      const amount = Number(options[i + 1]);
+
+      if ((option !== "PX" && option !== "EX") || !(amount > 0)) {
+        return new RespError("ERR syntax error");
+      }
+
+      expiresAt = Date.now() + (option === "EX" ? amount * 1000 : amount);
+    }
+
+    this.store.set(key, { value, expiresAt });
+
+    return OK;
+  }
+}
@@ -0,0 +1,147 @@
+import { EVENT, createCache } from "./run-cache";
+
+describe("RunCache introspection", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("should list the keys that have not expired", async () => {
+    const cache = createCache<string>();
+
+    await cache.set({ key: "user:1", value: "a" });
+    await cache.set({ key: "user:2", value: "b", ttl: 100 });
+    await cache.set({ key: "post:1", value: "c" });
+
+    expect(cache.keys()).toStrictEqual(["user:1", "user:2", "post:1"]);
+    expect(cache.keys("user:*")).toStrictEqual(["user:1", "user:2"]);
+    expect(cache.keys(/^post:/)).toStrictEqual(["post:1"]);
+
+    jest.advanceTimersByTime(101);
+
+    expect(cache.keys("user:*")).toStrictEqual(["user:1"]);
+    expect(cache.size).toBe(3);
+  });
+
+  it("should iterate over entries without counting hits", async () => {
+    const cache = createCache<number>();
+
+    await cache.set({ key: "a", value: 1 });
+    await cache.set({ key: "b", value: 2, ttl: 100 });
+
+    expect(Array.from(cache.entries())).toStrictEqual([
+      ["a", 1],
+      ["b", 2],
+    ]);
+
+    jest.advanceTimersByTime(101);
+
+    expect(new Map(cache.entries())).toStrictEqual(new Map([["a", 1]]));
+    expect(cache.stats().hits).toBe(0);
+  });
+
+  it("should return the remaining ttl", async () => {
+    const cache = createCache<string>();
+
+    await cache.set({ key: "ttl", value: "value", ttl: 100 });
+    await cache.set({ key: "forever", value: "value" });
+
+    jest.advanceTimersByTime(40);
+
+    expect(cache.ttl("ttl")).toBe(60);
+    expect(cache.ttl("forever")).toBe(Infinity);
+    expect(cache.ttl("missing")).toBeUndefined();
+
+    jest.advanceTimersByTime(61);
+
+    expect(cache.ttl("ttl")).toBeUndefined();
+  });
+
+  it("should inspect expired entries without side effects", async () => {
+    const cache = createCache<string>();
+    const expired = jest.fn();
+
+    cache.on(EVENT.EXPIRE, expired);
+
+    await cache.set({
+      key: "key",
+      sourceFn: () => "value",
+      ttl: 100,
+      tags: ["tag"],
+    });
+
+    const createAt = Date.now();
+
+    jest.advanceTimersByTime(101);
+    expired.mockClear();
+
+    expect(cache.inspect("key")).toStrictEqual({
+      key: "key",
+      createAt,
+      updateAt: createAt,
+      ttl: 100,
+      sliding: undefined,
+      maxAge: undefined,
+      expiresAt: createAt + 100,
+      expired: true,
+      autoRefetch: undefined,
+      staleWhileRevalidate: undefined,
+      staleTtl: undefined,
+      tags: ["tag"],
+      dependsOn: undefined,
+      negative: false,
+      error: undefined,
+      hasSourceFn: true,
+      fetching: false,
+      size: expect.any(Number),
+    });
+    expect(cache.inspect("missing")).toBeUndefined();
+
+    expect(expired).not.toHaveBeenCalled();
+    expect(cache.size).toBe(1);
+  });
+
+  it("should report fetching entries", async () => {
+    const cache = createCache<string>();
+
+    let resolve: (value: string) => void = () => undefined;
+
+    await cache.set({
+      key: "key",
+      value: "value",
+      sourceFn: () => new Promise<string>((done) => (resolve = done)),
+    });
+
+    const refetch = cache.refetch("key");
+
+    expect(cache.inspect("key")?.fetching).toBe(true);
+
+    resolve("second");
+    await refetch;
+
+    expect(cache.inspect("key")?.fetching).toBe(false);
+  });
+
+  it("should list the keys of a namespace without the prefix", async () => {
+    const cache = createCache<string>();
+    const users = cache.namespace("users");
+
+    await users.set({ key: "1", value: "a", ttl: 100 });
+    await users.set({ key: "2", value: "b" });
+    await cache.set({ key: "other", value: "c" });
+
+    expect(users.keys()).toStrictEqual(["1", "2"]);
+    expect(users.keys("1")).toStrictEqual(["1"]);
+    expect(Array.from(users.entries())).toStrictEqual([
+      ["1", "a"],
+      ["2", "b"],
+    ]);
+    expect(users.size).toBe(2);
+    expect(users.ttl("1")).toBe(100);
+    expect(users.inspect("1")?.key).toBe("1");
+  });
+});
@@ -0,0 +1,298 @@
+import { EventEmitter } from "node:events";
+import { FakeRespServer } from "./fake-resp-server";
+import {
+  InvalidationBus,
+  InvalidationMessage,
+  InvalidationTransport,
+} from "./invalidation-bus";
+import {
+  BroadcastChannelTransport,
+  ClusterIpcTransport,
+  RedisPubSubTransport,
+} from "./invalidation-transports";
+import { createCache } from "./run-cache";
+import { v4 as uuid } from "uuid";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class MemoryTransport implements InvalidationTransport {
+  handlers = new Set<(message: InvalidationMessage) => void>();
+  published: InvalidationMessage[] = [];
+
+  publish(message: InvalidationMessage): void {
+    this.published.push(message);
+    this.handlers.forEach((handler) => handler(message));
+  }
+
+  subscribe(handler: (message: InvalidationMessage) => void): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+}
+
+describe("InvalidationBus", () => {
+  it("should tag messages with its origin and skip its own messages", async () => {
+    const transport = new MemoryTransport();
+    const received = jest.fn();
+    const bus = new InvalidationBus(transport, received);
+
+    bus.publish({ type: "delete", key: "key" });
+    await wait(0);
+
+    expect(transport.published).toHaveLength(1);
+    expect(transport.published[0]).toMatchObject({
+      type: "delete",
+      key: "key",
+      origin: bus.origin,
+    });
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it("should drop duplicate messages", () => {
+    const transport = new MemoryTransport();
+    const received = jest.fn();
+    const bus = new InvalidationBus(transport, received);
+
+    const message: InvalidationMessage = {
+      type: "flush",
+      id: uuid(),
+      origin: uuid(),
+      sentAt: Date.now(),
+    };
+
+    transport.publish(message);
+    transport.publish(message);
+
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(received).toHaveBeenCalledWith(message);
+
+    bus.close();
+    transport.publish({ ...message, id: uuid() });
+
+    expect(received).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ignore transport failures", async () => {
+    const bus = new InvalidationBus(
+      {
+        publish: () => Promise.reject(new Error("Connection lost")),
+        subscribe: () => () => {},
+      },
+      jest.fn(),
+    );
+
+    expect(() => bus.publish({ type: "flush" })).not.toThrow();
+    await wait(0);
+  });
+});
+
+describe("RunCache with an invalidation transport", () => {
+  let transport: MemoryTransport;
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+  });
+
+  it("should apply deletions, tags, patterns and flushes of other instances", async () => {
+    const a = createCache<string>({ invalidationTransport: transport });
+    const b = createCache<string>({ invalidationTransport: transport });
+
+    for (const cache of [a, b]) {
+      await cache.set({ key: "user:1", value: "1", tags: ["users"] });
+      await cache.set({ key: "user:2", value: "2" });
+      await cache.set({ key: "post:1", value: "3" });
+      await cache.set({ key: "other", value: "4" });
+    }
+
+    const invalidated = jest.fn();
+    b.onInvalidate(invalidated);
+
+    a.delete("other");
+    await wait(0);
+    await expect(b.has("other")).resolves.toStrictEqual(false);
+
+    expect(a.invalidateByTag("users")).toStrictEqual(1);
+    await wait(0);
+    await expect(b.has("user:1")).resolves.toStrictEqual(false);
+    expect(invalidated).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "user:1", tag: "users" }),
+    );
+
+    expect(a.deleteByPattern(/^user:/)).toStrictEqual(1);
+    await wait(0);
+    await expect(b.has("user:2")).resolves.toStrictEqual(false);
+    await expect(b.has("post:1")).resolves.toStrictEqual(true);
+
+    a.flush();
+    await wait(0);
+    await expect(b.has("post:1")).resolves.toStrictEqual(false);
+
+    expect(transport.published.map(({ type }) => type)).toStrictEqual([
+      "delete",
+      "tag",
+      "pattern",
+      "flush",
+    ]);
+  });
+
+  it("should refetch or drop the entry of other instances on refetch", async () => {
+    const a = createCache<string>({ invalidationTransport: transport });
+    const b = createCache<string>({ invalidationTransport: transport });
+    const c = createCache<string>({ invalidationTransport: transport });
+
+    let version = 0;
+    const sourceFn = () => `v${++version}`;
+
+    await a.set({ key: "key", sourceFn });
+    await b.set({ key: "key", sourceFn });
+    await c.set({ key: "key", value: "static" });
+
+    await a.refetch("key");
+    await wait(0);
+
+    await expect(a.get("key")).resolves.toStrictEqual("v3");
+    await expect(b.get("key")).resolves.toStrictEqual("v4");
+    await expect(c.has("key")).resolves.toStrictEqual(false);
+  });
+
+  it("should not broadcast when disposed or after removing the transport", async () => {
+    const a = createCache<string>({ invalidationTransport: transport });
+    const b = createCache<string>({ invalidationTransport: transport });
+
+    await b.set({ key: "key", value: "value" });
+
+    a.dispose();
+    await wait(0);
+    await expect(b.has("key")).resolves.toStrictEqual(true);
+
+    b.setInvalidationTransport();
+    createCache({ invalidationTransport: transport }).flush();
+    await wait(0);
+    await expect(b.has("key")).resolves.toStrictEqual(true);
+
+    expect(transport.published.map(({ type }) => type)).toStrictEqual([
+      "flush",
+    ]);
+  });
+});
+
+describe("BroadcastChannelTransport", () => {
+  it("should deliver invalidations between channels of the same name", async () => {
+    const name = uuid();
+    const transports = [
+      new BroadcastChannelTransport(name),
+      new BroadcastChannelTransport(name),
+    ];
+
+    const a = createCache({ invalidationTransport: transports[0] });
+    const b = createCache({ invalidationTransport: transports[1] });
+
+    await b.set({ key: "key", value: "value" });
+
+    a.delete("key");
+
+    await wait(50);
+    await expect(b.has("key")).resolves.toStrictEqual(false);
+
+    transports.forEach((transport) => transport.close());
+  });
+});
+
+describe("ClusterIpcTransport", () => {
+  const createWorker = () => {
+    const process = Object.assign(new EventEmitter(), {
+      send: (message: unknown) => {
+        cluster.emit("message", worker, message);
+      },
+    });
+    const worker = {
+      send: (message: unknown) => {
+        process.emit("message", message);
+      },
+    };
+
+    return { process, worker };
+  };
+
+  const cluster = new EventEmitter() as EventEmitter & {
+    workers?: Record<string, { send(message: unknown): unknown }>;
+  };
+
+  it("should relay invalidations between workers through the primary", async () => {
+    const first = createWorker();
+    const second = createWorker();
+    cluster.workers = { 1: first.worker, 2: second.worker };
+
+    const stop = ClusterIpcTransport.relay(cluster);
+
+    const a = createCache({
+      invalidationTransport: new ClusterIpcTransport({
+        process: first.process,
+      }),
+    });
+    const b = createCache({
+      invalidationTransport: new ClusterIpcTransport({
+        process: second.process,
+      }),
+    });
+
+    await b.set({ key: "key", value: "value" });
+    second.process.emit("message", { unrelated: true });
+
+    a.delete("key");
+    await wait(0);
+    await expect(b.has("key")).resolves.toStrictEqual(false);
+
+    stop();
+    await b.set({ key: "key", value: "value" });
+
+    a.delete("key");
+    await wait(0);
+    await expect(b.has("key")).resolves.toStrictEqual(true);
+  });
+
+  it("should fail to publish without an IPC channel", () => {
+    const transport = new ClusterIpcTransport({ process: new EventEmitter() });
+
+    expect(() => transport.publish({} as InvalidationMessage)).toThrow(
+      "Process has no IPC channel",
+    );
+  });
+});
+
+describe("RedisPubSubTransport", () => {
+  let server: FakeRespServer;
+  let port: number;
+
+  beforeEach(async () => {
+    server = new FakeRespServer({ password: "secret" });
+    port = await server.listen();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("should deliver invalidations through the server", async () => {
+    const transports = [
+      new RedisPubSubTransport({ port, password: "secret" }),
+      new RedisPubSubTransport({ port, password: "secret" }),
+    ];
+
+    const a = createCache({ invalidationTransport: transports[0] });
+    const b = createCache({ invalidationTransport: transports[1] });
+
+    await Promise.all(
+      transports.map((transport) => transport.whenSubscribed()),
+    );
+
+    await b.set({ key: "key", value: "value", tags: ["tag"] });
+
+    a.invalidateByTag("tag");
+
+    await wait(50);
+    await expect(b.has("key")).resolves.toStrictEqual(false);
+
+    await Promise.all(transports.map((transport) => transport.close()));
+  });
+});
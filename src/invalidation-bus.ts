@@ -0,0 +1,83 @@
+import { randomUUID } from "node:crypto";
+
+export type Invalidation =
+  | { type: "delete"; key: string }
+  | { type: "refetch"; key: string }
+  | { type: "tag"; tag: string }
+  | { type: "pattern"; pattern: string | { source: string; flags: string } }
+  | { type: "flush" };
+
+export type InvalidationMessage = Invalidation & {
+  /** Unique id of the message, used to drop duplicates. */
+  id: string;
+  /** Id of the cache instance that sent the message. */
+  origin: string;
+  sentAt: number;
+};
+
+/**
+ * Carries invalidation messages between cache instances. A transport may deliver a message
+ * more than once or back to its sender, the bus drops those.
+ */
+export interface InvalidationTransport {
+  publish(message: InvalidationMessage): Promise<void> | void;
+  /** Returns a function that stops the subscription. */
+  subscribe(handler: (message: InvalidationMessage) => void): () => void;
+}
+
+const MAX_SEEN_MESSAGES = 1000;
+
+/**
+ * Publishes the invalidations of a cache instance and hands the ones of other instances to it,
+ * tagging messages with the instance id and dropping duplicates.
+ */
+export class InvalidationBus {
+  readonly origin: string = randomUUID();
+
+  private seen: Set<string> = new Set<string>();
+  private unsubscribe: () => void;
+
+  constructor(
+    private transport: InvalidationTransport,
+    onMessage: (message: InvalidationMessage) => void,
+  ) {
+    this.unsubscribe = transport.subscribe((message) => {
+      if (message.origin === this.origin || !this.markSeen(message.id)) return;
+
+      onMessage(message);
+    });
+  }
+
+  publish(invalidation: Invalidation): void {
+    const message: InvalidationMessage = {
+      ...invalidation,
+      id: randomUUID(),
+      origin: this.origin,
+      sentAt: Date.now(),
+    };
+
+    this.markSeen(message.id);
+
+    Promise.resolve()
+      .then(() => this.transport.publish(message))
+      .catch((e) => {
+        /* Ignore, other instances keep their copy until its `ttl` runs out */
+      });
+  }
+
+  close(): void {
+    this.unsubscribe();
+  }
+
+  private markSeen(id: string): boolean {
+    if (this.seen.has(id)) return false;
+
+    this.seen.add(id);
+
+    if (this.seen.size > MAX_SEEN_MESSAGES) {
+      this.seen.delete(this.seen.values().next().value as string);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,285 @@
+import * as net from "node:net";
+import { BroadcastChannel } from "node:worker_threads";
+import { RespError } from "./errors";
+import { InvalidationMessage, InvalidationTransport } from "./invalidation-bus";
+import { RedisStore, RedisStoreOptions } from "./remote-store";
+import { RespParser, encodeCommand } from "./resp";
+
+type MessageHandler = (message: InvalidationMessage) => void;
+
+const DEFAULT_CHANNEL = "run-cache:invalidation";
+
+/**
+ * Delivers invalidations to every cache subscribed to the same channel name in any thread of the process,
+ * including `worker_threads` workers.
+ */
+export class BroadcastChannelTransport implements InvalidationTransport {
+  private channel: BroadcastChannel;
+  private handlers: Set<MessageHandler> = new Set<MessageHandler>();
+
+  /**
+   * @param {string} [name] - The name of the channel. Defaults to `run-cache:invalidation`.
+   */
+  constructor(name: string = DEFAULT_CHANNEL) {
+    this.channel = new BroadcastChannel(name);
+
+    // Don't keep the thread alive only to wait for invalidations
+    this.channel.unref();
+
+    this.channel.onmessage = (event) => {
+      const message = (event as MessageEvent).data as InvalidationMessage;
+      this.handlers.forEach((handler) => handler(message));
+    };
+  }
+
+  publish(message: InvalidationMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(handler: MessageHandler): () => void {
+    this.handlers.add(handler);
+
+    return () => this.handlers.delete(handler);
+  }
+
+  close(): void {
+    this.handlers.clear();
+    this.channel.close();
+  }
+}
+
+/** The parts of `process` of a `cluster` worker the IPC transport uses. */
+export type IpcProcess = {
+  send?: (message: unknown) => unknown;
+  on(event: "message", listener: (message: unknown) => void): unknown;
+  off(event: "message", listener: (message: unknown) => void): unknown;
+};
+
+/** The parts of the `cluster` module of the primary process the IPC relay uses. */
+export type IpcCluster = {
+  workers?: Record<string, { send(message: unknown): unknown } | undefined>;
+  on(
+    event: "message",
+    listener: (worker: unknown, message: unknown) => void,
+  ): unknown;
+  off(
+    event: "message",
+    listener: (worker: unknown, message: unknown) => void,
+  ): unknown;
+};
+
+type IpcEnvelope = {
+  runCacheChannel: string;
+  message: InvalidationMessage;
+};
+
+const isEnvelope = (data: unknown, channel: string): data is IpcEnvelope =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as IpcEnvelope).runCacheChannel === channel;
+
+/**
+ * Delivers invalidations between `cluster` workers over their IPC channel. The primary process
+ * must forward the messages with `ClusterIpcTransport.relay(cluster)`.
+ */
+export class ClusterIpcTransport implements InvalidationTransport {
+  private process: IpcProcess;
+
+  /**
+   * @param {Object} [options] - Options for the transport.
+   * @param {string} [options.channel] - Separates the invalidations of several caches. Defaults to `run-cache:invalidation`.
+   * @param {IpcProcess} [options.process] - The worker process. Defaults to the current process.
+   */
+  constructor(
+    private options: { channel?: string; process?: IpcProcess } = {},
+  ) {
+    this.process = options.process ?? process;
+  }
+
+  publish(message: InvalidationMessage): void {
+    if (!this.process.send) {
+      throw new Error("Process has no IPC channel");
+    }
+
+    const envelope: IpcEnvelope = {
+      runCacheChannel: this.options.channel ?? DEFAULT_CHANNEL,
+      message,
+    };
+
+    this.process.send(envelope);
+  }
+
+  subscribe(handler: MessageHandler): () => void {
+    const channel = this.options.channel ?? DEFAULT_CHANNEL;
+
+    const listener = (data: unknown) => {
+      if (isEnvelope(data, channel)) handler(data.message);
+    };
+
+    this.process.on("message", listener);
+
+    return () => this.process.off("message", listener);
+  }
+
+  /**
+   * Forwards the invalidations of each worker to all other workers. Call it once in the primary process.
+   *
+   * @param {IpcCluster} cluster - The `cluster` module.
+   * @param {string} [channel] - The channel of the transports. Defaults to `run-cache:invalidation`.
+   *
+   * @returns {Function} A function that stops forwarding.
+   */
+  static relay(
+    cluster: IpcCluster,
+    channel: string = DEFAULT_CHANNEL,
+  ): () => void {
+    const listener = (sender: unknown, data: unknown) => {
+      if (!isEnvelope(data, channel)) return;
+
+      Object.values(cluster.workers ?? {}).forEach((worker) => {
+        if (worker && worker !== sender) worker.send(data);
+      });
+    };
+
+    cluster.on("message", listener);
+
+    return () => cluster.off("message", listener);
+  }
+}
+
+export type RedisPubSubTransportOptions = RedisStoreOptions & {
+  /** The pub/sub channel. Defaults to `run-cache:invalidation`. */
+  channel?: string;
+  /** Time in milliseconds to wait before subscribing again after the connection was lost. Defaults to `1000`. */
+  reconnectDelay?: number;
+};
+
+/**
+ * Delivers invalidations through the pub/sub channels of a server speaking the Redis protocol.
+ * Invalidations published while the subscriber connection is down are lost.
+ */
+export class RedisPubSubTransport implements InvalidationTransport {
+  private publisher: RedisStore;
+  private subscriber?: net.Socket;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private handlers: Set<MessageHandler> = new Set<MessageHandler>();
+  private subscribedWaiters: (() => void)[] = [];
+  private subscribed = false;
+
+  constructor(private options: RedisPubSubTransportOptions = {}) {
+    // Publishing goes through a regular connection, a subscribed connection can't run other commands
+    this.publisher = new RedisStore(options);
+  }
+
+  async publish(message: InvalidationMessage): Promise<void> {
+    await this.publisher.command([
+      "PUBLISH",
+      this.options.channel ?? DEFAULT_CHANNEL,
+      JSON.stringify(message),
+    ]);
+  }
+
+  subscribe(handler: MessageHandler): () => void {
+    this.handlers.add(handler);
+    this.connectSubscriber();
+
+    return () => {
+      this.handlers.delete(handler);
+
+      if (!this.handlers.size) this.disconnectSubscriber();
+    };
+  }
+
+  /**
+   * Resolves once the server has confirmed the subscription, so invalidations published from now on are received.
+   */
+  whenSubscribed(): Promise<void> {
+    if (this.subscribed) return Promise.resolve();
+
+    return new Promise((resolve) => this.subscribedWaiters.push(resolve));
+  }
+
+  /**
+   * Stops the subscription and closes both connections.
+   */
+  async close(): Promise<void> {
+    this.handlers.clear();
+    this.disconnectSubscriber();
+
+    await this.publisher.close();
+  }
+
+  private connectSubscriber(): void {
+    if (this.subscriber || !this.handlers.size) return;
+
+    const {
+      host = "127.0.0.1",
+      port = 6379,
+      password,
+      channel = DEFAULT_CHANNEL,
+      reconnectDelay = 1000,
+    } = this.options;
+
+    const socket = net.createConnection({ host, port });
+    const parser = new RespParser();
+
+    this.subscriber = socket;
+
+    socket.on("connect", () => {
+      if (password !== undefined) {
+        socket.write(encodeCommand(["AUTH", password]));
+      }
+
+      socket.write(encodeCommand(["SUBSCRIBE", channel]));
+    });
+
+    socket.on("data", (chunk: Buffer) => {
+      try {
+        parser.feed(chunk).forEach((reply) => {
+          if (reply instanceof RespError) throw reply;
+          if (!Array.isArray(reply) || reply[1] !== channel) return;
+
+          if (reply[0] === "subscribe") {
+            this.subscribed = true;
+            this.subscribedWaiters.splice(0).forEach((resolve) => resolve());
+          } else if (reply[0] === "message") {
+            const message = JSON.parse(reply[2] as string);
+            this.handlers.forEach((handler) => handler(message));
+          }
+        });
+      } catch (e) {
+        socket.destroy();
+      }
+    });
+
+    socket.on("error", () => {
+      /* The `close` event that always follows subscribes again */
+    });
+
+    socket.on("close", () => {
+      if (this.subscriber !== socket) return;
+
+      this.subscriber = undefined;
+      this.subscribed = false;
+
+      if (!this.handlers.size) return;
+
+      this.reconnectTimer = setTimeout(
+        () => this.connectSubscriber(),
+        reconnectDelay,
+      );
+      this.reconnectTimer.unref?.();
+    });
+  }
+
+  private disconnectSubscriber(): void {
+    clearTimeout(this.reconnectTimer);
+
+    const socket = this.subscriber;
+
+    this.subscriber = undefined;
+    this.subscribed = false;
+
+    socket?.destroy();
+  }
+}
@@ -0,0 +1,105 @@
+import { METRIC, StatsCollector, toPrometheus } from "./metrics";
+
+describe("metrics", () => {
+  describe("StatsCollector", () => {
+    it("should count globally, per key and per prefix", () => {
+      const collector = new StatsCollector();
+
+      collector.record("user:1", METRIC.HITS);
+      collector.record("user:2", METRIC.HITS);
+      collector.record("post:1", METRIC.MISSES);
+
+      expect(collector.counters().hits).toStrictEqual(2);
+      expect(collector.counters().misses).toStrictEqual(1);
+      expect(collector.counters({ key: "user:1" }).hits).toStrictEqual(1);
+      expect(collector.counters({ prefix: "user:" }).hits).toStrictEqual(2);
+      expect(collector.counters({ prefix: "user:" }).misses).toStrictEqual(0);
+    });
+
+    it("should summarize latency percentiles", () => {
+      const collector = new StatsCollector();
+
+      for (let latency = 1; latency <= 100; latency++) {
+        collector.recordLatency("key", latency);
+      }
+
+      expect(collector.counters().latency).toStrictEqual({
+        count: 100,
+        sum: 5050,
+        min: 1,
+        max: 100,
+        mean: 50.5,
+        p50: 50,
+        p90: 90,
+        p99: 99,
+      });
+    });
+
+    it("should keep counting latencies beyond the sample window", () => {
+      const collector = new StatsCollector();
+
+      for (let call = 0; call < 1200; call++) {
+        collector.recordLatency(call < 200 ? "old" : "key", call < 200 ? 1 : 2);
+      }
+
+      expect(collector.counters().latency).toMatchObject({
+        count: 1200,
+        sum: 2200,
+        min: 2,
+        mean: 2,
+      });
+      expect(collector.counters({ key: "key" }).latency).toMatchObject({
+        count: 1000,
+        sum: 2000,
+      });
+    });
+
+    it("should forget the least recently recorded keys beyond the limit", () => {
+      const collector = new StatsCollector(2);
+
+      collector.record("a", METRIC.HITS);
+      collector.record("b", METRIC.HITS);
+      collector.record("a", METRIC.HITS);
+      collector.record("c", METRIC.HITS);
+
+      expect(collector.counters({ key: "a" }).hits).toStrictEqual(2);
+      expect(collector.counters({ key: "b" }).hits).toStrictEqual(0);
+      expect(collector.counters().hits).toStrictEqual(4);
+    });
+
+    it("should reset all counters", () => {
+      const collector = new StatsCollector();
+
+      collector.record("a", METRIC.EVICTIONS);
+      collector.reset();
+
+      expect(collector.counters().evictions).toStrictEqual(0);
+      expect(collector.counters({ key: "a" }).evictions).toStrictEqual(0);
+    });
+  });
+
+  describe("toPrometheus()", () => {
+    it("should format stats in the Prometheus text format", () => {
+      const collector = new StatsCollector();
+
+      collector.record("a", METRIC.HITS);
+      collector.recordLatency("a", 10);
+
+      const text = toPrometheus(
+        { ...collector.counters(), entries: 1, approximateBytes: 20 },
+        { labels: { instance: 'a"b' } },
+      );
+
+      expect(text).toContain("# TYPE run_cache_hits_total counter");
+      expect(text).toContain('run_cache_hits_total{instance="a\\"b"} 1');
+      expect(text).toContain(
+        'run_cache_source_latency_milliseconds{instance="a\\"b",quantile="0.5"} 10',
+      );
+      expect(text).toContain(
+        'run_cache_source_latency_milliseconds_count{instance="a\\"b"} 1',
+      );
+      expect(text).toContain('run_cache_size_bytes{instance="a\\"b"} 20');
+      expect(text.endsWith("\n")).toStrictEqual(true);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+export const METRIC = Object.freeze({
+  HITS: "hits",
+  MISSES: "misses",
+  EXPIRIES: "expiries",
+  REFETCHES: "refetches",
+  REFETCH_FAILURES: "refetchFailures",
+  EVICTIONS: "evictions",
+});
+
+export type MetricName = (typeof METRIC)[keyof typeof METRIC];
+
+export type LatencyStats = {
+  /** The number of calls since the stats were reset. */
+  count: number;
+  /** The total latency of all calls since the stats were reset. */
+  sum: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+};
+
+export type CacheStats = Record<MetricName, number> & {
+  /** Latency of source function calls in milliseconds. `count` and `sum` cover all calls, the others the most recent calls. */
+  latency: LatencyStats;
+  entries: number;
+  approximateBytes: number;
+};
+
+type Counters = Record<MetricName, number> & {
+  /** The most recent latencies, for the percentiles. */
+  latencies: number[];
+  latencyCount: number;
+  latencySum: number;
+};
+
+const MAX_LATENCY_SAMPLES = 1000;
+const MAX_KEY_LATENCY_SAMPLES = 100;
+
+const createCounters = (): Counters => ({
+  hits: 0,
+  misses: 0,
+  expiries: 0,
+  refetches: 0,
+  refetchFailures: 0,
+  evictions: 0,
+  latencies: [],
+  latencyCount: 0,
+  latencySum: 0,
+});
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+function summarize({
+  latencies,
+  latencyCount,
+  latencySum,
+}: Counters): LatencyStats {
+  if (!latencies.length) {
+    return {
+      count: latencyCount,
+      sum: latencySum,
+      min: 0,
+      max: 0,
+      mean: 0,
+      p50: 0,
+      p90: 0,
+      p99: 0,
+    };
+  }
+
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const windowSum = sorted.reduce((total, latency) => total + latency, 0);
+
+  return {
+    // Cumulative, as Prometheus expects the `_count` and `_sum` of a summary to be
+    count: latencyCount,
+    sum: latencySum,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: windowSum / sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+  };
+}
+
+function pushSample(samples: number[], sample: number, limit: number): void {
+  samples.push(sample);
+
+  if (samples.length > limit) {
+    samples.shift();
+  }
+}
+
+/**
+ * Counts cache operations globally and per key.
+ *
+ * Per-key counters are kept for at most `maxTrackedKeys` keys; the keys that were recorded least recently
+ * are forgotten first, so the collector can't grow without bounds on caches with many distinct keys.
+ */
+export class StatsCollector {
+  private global: Counters = createCounters();
+  private keys: Map<string, Counters> = new Map<string, Counters>();
+
+  constructor(private maxTrackedKeys: number = 10000) {}
+
+  record(key: string, metric: MetricName): void {
+    this.global[metric] += 1;
+    this.countersOf(key)[metric] += 1;
+  }
+
+  recordLatency(key: string, latency: number): void {
+    const counters = this.countersOf(key);
+
+    [this.global, counters].forEach((target) => {
+      target.latencyCount += 1;
+      target.latencySum += latency;
+    });
+
+    pushSample(this.global.latencies, latency, MAX_LATENCY_SAMPLES);
+    pushSample(counters.latencies, latency, MAX_KEY_LATENCY_SAMPLES);
+  }
+
+  /**
+   * Returns the counters of all keys, a single key or every key starting with a prefix.
+   */
+  counters(filter?: {
+    key?: string;
+    prefix?: string;
+  }): Record<MetricName, number> & { latency: LatencyStats } {
+    let counters: Counters;
+
+    if (filter?.key !== undefined) {
+      counters = this.keys.get(filter.key) ?? createCounters();
+    } else if (filter?.prefix !== undefined) {
+      counters = createCounters();
+
+      this.keys.forEach((keyCounters, key) => {
+        if (!key.startsWith(filter.prefix as string)) return;
+
+        Object.values(METRIC).forEach((metric) => {
+          counters[metric] += keyCounters[metric];
+        });
+        counters.latencies.push(...keyCounters.latencies);
+        counters.latencyCount += keyCounters.latencyCount;
+        counters.latencySum += keyCounters.latencySum;
+      });
+    } else {
+      counters = this.global;
+    }
+
+    const { latencies, latencyCount, latencySum, ...rest } = counters;
+
+    return { ...rest, latency: summarize(counters) };
+  }
+
+  reset(): void {
+    this.global = createCounters();
+    this.keys.clear();
+  }
+
+  private countersOf(key: string): Counters {
+    let counters = this.keys.get(key);
+
+    if (counters) {
+      // Move the key to the end so the least recently recorded keys are dropped first
+      this.keys.delete(key);
+    } else {
+      counters = createCounters();
+    }
+
+    this.keys.set(key, counters);
+
+    if (this.keys.size > this.maxTrackedKeys) {
+      this.keys.delete(this.keys.keys().next().value as string);
+    }
+
+    return counters;
+  }
+}
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: Record<string, string>) => {
+  const entries = Object.entries(labels);
+  if (!entries.length) return "";
+
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+};
+
+/**
+ * Formats cache statistics in the Prometheus text exposition format.
+ *
+ * @param {CacheStats} stats - The statistics returned by `stats()`.
+ * @param {Object} [options] - Formatting options.
+ * @param {string} [options.prefix] - The prefix of every metric name. Defaults to `run_cache`.
+ * @param {Record<string, string>} [options.labels] - Labels added to every sample, e.g. to tell cache instances apart.
+ *
+ * @returns {string} The metrics, ending with a newline.
+ */
+export function toPrometheus(
+  stats: CacheStats,
+  {
+    prefix = "run_cache",
+    labels = {},
+  }: { prefix?: string; labels?: Record<string, string> } = {},
+): string {
+  const lines: string[] = [];
+
+  const metric = (
+    name: string,
+    type: "counter" | "gauge" | "summary",
+    help: string,
+    samples: [
+      suffix: string,
+      extraLabels: Record<string, string>,
+      value: number,
+    ][],
+  ) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${prefix}_${name} ${type}`);
+
+    samples.forEach(([suffix, extraLabels, value]) => {
+      lines.push(
+        `${prefix}_${name}${suffix}${formatLabels({ ...labels, ...extraLabels })} ${value}`,
+      );
+    });
+  };
+
+  metric("hits_total", "counter", "Number of cache hits.", [
+    ["", {}, stats.hits],
+  ]);
+  metric("misses_total", "counter", "Number of cache misses.", [
+    ["", {}, stats.misses],
+  ]);
+  metric("expiries_total", "counter", "Number of expired entries.", [
+    ["", {}, stats.expiries],
+  ]);
+  metric("refetches_total", "counter", "Number of successful refetches.", [
+    ["", {}, stats.refetches],
+  ]);
+  metric("refetch_failures_total", "counter", "Number of failed refetches.", [
+    ["", {}, stats.refetchFailures],
+  ]);
+  metric("evictions_total", "counter", "Number of evicted entries.", [
+    ["", {}, stats.evictions],
+  ]);
+  metric(
+    "source_latency_milliseconds",
+    "summary",
+    "Latency of source function calls.",
+    [
+      ["", { quantile: "0.5" }, stats.latency.p50],
+      ["", { quantile: "0.9" }, stats.latency.p90],
+      ["", { quantile: "0.99" }, stats.latency.p99],
+      ["_sum", {}, stats.latency.sum],
+      ["_count", {}, stats.latency.count],
+    ],
+  );
+  metric("entries", "gauge", "Number of cached entries.", [
+    ["", {}, stats.entries],
+  ]);
+  metric("size_bytes", "gauge", "Approximate size of cached values.", [
+    ["", {}, stats.approximateBytes],
+  ]);
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,304 @@
+import { AbortError, EVENT, createCache } from "./run-cache";
+import { v4 as uuid } from "uuid";
+
+describe("CacheNamespace", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("should prefix keys transparently", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+    const posts = cache.namespace("posts");
+    const value = uuid();
+
+    await users.set({ key: "1", value });
+
+    await expect(users.get("1")).resolves.toStrictEqual(value);
+    await expect(users.has("1")).resolves.toStrictEqual(true);
+    await expect(posts.get("1")).resolves.toBeUndefined();
+    await expect(cache.get("users:1")).resolves.toStrictEqual(value);
+
+    expect(users.delete("1")).toStrictEqual(true);
+    await expect(cache.has("users:1")).resolves.toStrictEqual(false);
+  });
+
+  it("should return the same handle for the same name", () => {
+    const cache = createCache();
+
+    expect(cache.namespace("users")).toBe(cache.namespace("users"));
+    expect(cache.namespace("users").namespace("admins").prefix).toStrictEqual(
+      "users:admins:",
+    );
+  });
+
+  it("should reject empty keys and names", async () => {
+    const cache = createCache();
+
+    expect(() => cache.namespace("")).toThrow("Empty namespace");
+    await expect(
+      cache.namespace("users").set({ key: "", value: uuid() }),
+    ).rejects.toThrow("Empty key");
+  });
+
+  it("should refetch and memoize within the namespace", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+    let value = uuid();
+
+    await users.set({ key: "1", sourceFn: () => value });
+    value = uuid();
+
+    await expect(users.refetch("1")).resolves.toStrictEqual(true);
+    await expect(users.get("1")).resolves.toStrictEqual(value);
+
+    const fn = jest.fn((id: number) => `user ${id}`);
+    const getUser = users.wrap(fn, { keyFn: (id) => `wrapped:${id}` });
+
+    await getUser(1);
+    await getUser(1);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    await expect(cache.get("users:wrapped:1")).resolves.toStrictEqual("user 1");
+  });
+
+  it("should use keys without the prefix in batch operations", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+
+    await users.mset([{ key: "1", value: "cached" }]);
+
+    const loader = jest.fn((keys: string[]) =>
+      keys.map((key) => `user ${key}`),
+    );
+    const { hits, misses } = await users.mget(["1", "2"], { loader });
+
+    expect(loader).toHaveBeenCalledWith(["2"]);
+    expect(hits).toStrictEqual(
+      new Map([
+        ["1", "cached"],
+        ["2", "user 2"],
+      ]),
+    );
+    expect(misses).toStrictEqual([]);
+    await expect(cache.get("users:2")).resolves.toStrictEqual("user 2");
+    await expect(users.mhas(["2"])).resolves.toStrictEqual(
+      new Map([["2", true]]),
+    );
+    expect(users.mdelete(["1", "2"])).toStrictEqual({ deleted: 2, missing: 0 });
+  });
+
+  it("should only flush the entries of the namespace", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+
+    await users.set({ key: "1", value: uuid() });
+    await users.namespace("admins").set({ key: "1", value: uuid() });
+    await cache.set({ key: "posts:1", value: uuid() });
+
+    users.flush();
+
+    expect(users.stats().entries).toStrictEqual(0);
+    await expect(cache.has("posts:1")).resolves.toStrictEqual(true);
+  });
+
+  it("should abort the fetches in flight of the namespace on flush()", async () => {
+    const cache = createCache<string>();
+    const users = cache.namespace("users");
+    const posts = cache.namespace("posts");
+    const later = (value: string) => () =>
+      new Promise<string>((resolve) => setTimeout(() => resolve(value), 100));
+
+    const pendingUser = users
+      .set({ key: "1", sourceFn: later("user") })
+      .catch((e) => e);
+    const pendingPost = posts.set({ key: "1", sourceFn: later("post") });
+
+    users.flush();
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect((await pendingUser).cause).toStrictEqual(new AbortError("users:1"));
+    await pendingPost;
+    expect(await users.get("1")).toBeUndefined();
+    expect(await posts.get("1")).toStrictEqual("post");
+  });
+
+  it("should pass keys without the prefix to namespace listeners", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+
+    const funcToBeExecutedOnExpiry = jest.fn();
+    const funcToBeExecutedOnKeyExpiry = jest.fn();
+
+    users.onExpiry(funcToBeExecutedOnExpiry);
+    users.onKeyExpiry("1", funcToBeExecutedOnKeyExpiry);
+
+    await users.set({ key: "1", value: uuid(), ttl: 100 });
+    await cache.set({ key: "posts:1", value: uuid(), ttl: 100 });
+
+    jest.advanceTimersByTime(101);
+
+    expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(1);
+    expect(funcToBeExecutedOnExpiry).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "1" }),
+    );
+    expect(funcToBeExecutedOnKeyExpiry).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only clear listeners registered through the namespace", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+    const posts = cache.namespace("posts");
+
+    const funcToBeExecutedOnUsersExpiry = jest.fn();
+    const funcToBeExecutedOnUsersRefetch = jest.fn();
+    const funcToBeExecutedOnPostsExpiry = jest.fn();
+    const funcToBeExecutedOnExpiry = jest.fn();
+
+    users.onExpiry(funcToBeExecutedOnUsersExpiry);
+    users.onKeyRefetch("1", funcToBeExecutedOnUsersRefetch);
+    posts.onExpiry(funcToBeExecutedOnPostsExpiry);
+    cache.onExpiry(funcToBeExecutedOnExpiry);
+
+    expect(users.clearEventListeners({ event: EVENT.EXPIRE })).toStrictEqual(
+      true,
+    );
+
+    await users.set({
+      key: "1",
+      sourceFn: () => uuid(),
+      ttl: 100,
+      autoRefetch: true,
+    });
+    await posts.set({ key: "1", value: uuid(), ttl: 100 });
+
+    jest.advanceTimersByTime(101);
+    await Promise.resolve();
+
+    expect(funcToBeExecutedOnUsersExpiry).toHaveBeenCalledTimes(0);
+    expect(funcToBeExecutedOnUsersRefetch).toHaveBeenCalledTimes(1);
+    expect(funcToBeExecutedOnPostsExpiry).toHaveBeenCalledTimes(1);
+    expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(2);
+
+    users.clearEventListeners();
+    await users.refetch("1");
+
+    expect(funcToBeExecutedOnUsersRefetch).toHaveBeenCalledTimes(1);
+    expect(() => users.clearEventListeners({ key: "1" })).toThrow(
+      "`key` cannot be provided without `event`",
+    );
+  });
+
+  it("should remove a namespace listener with the returned function", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+    const funcToBeExecutedOnInvalidate = jest.fn();
+
+    const unsubscribe = users.onKeyInvalidate(
+      "1",
+      funcToBeExecutedOnInvalidate,
+    );
+
+    await users.set({ key: "1", value: uuid(), tags: ["users"] });
+    unsubscribe();
+    cache.invalidateByTag("users");
+
+    expect(funcToBeExecutedOnInvalidate).not.toHaveBeenCalled();
+  });
+
+  it("should pass keys without the prefix to on() listeners", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+    const posts = cache.namespace("posts");
+    const funcToBeExecutedOnSet = jest.fn();
+    const funcToBeExecutedOnHit = jest.fn();
+    const funcToBeExecutedOnMiss = jest.fn();
+    const funcToBeExecutedOnFlush = jest.fn();
+
+    users.on(EVENT.SET, funcToBeExecutedOnSet);
+    users.on(EVENT.HIT, funcToBeExecutedOnHit, { key: "1" });
+    users.on(EVENT.MISS, funcToBeExecutedOnMiss);
+    users.on(EVENT.FLUSH, funcToBeExecutedOnFlush);
+
+    const value = uuid();
+    await users.set({ key: "1", value });
+    await posts.set({ key: "1", value });
+    await users.get("1");
+    await posts.get("1");
+    await users.get("2");
+    await posts.get("2");
+    cache.flush();
+
+    expect(funcToBeExecutedOnSet).toHaveBeenCalledTimes(1);
+    expect(funcToBeExecutedOnSet.mock.calls[0][0].key).toBe("1");
+    expect(funcToBeExecutedOnHit).toHaveBeenCalledTimes(1);
+    expect(funcToBeExecutedOnHit.mock.calls[0][0].key).toBe("1");
+    expect(funcToBeExecutedOnMiss).toHaveBeenCalledTimes(1);
+    expect(funcToBeExecutedOnMiss.mock.calls[0][0].key).toBe("2");
+    expect(funcToBeExecutedOnFlush).toHaveBeenCalledTimes(1);
+    expect(() =>
+      users.on(EVENT.FLUSH, funcToBeExecutedOnFlush, { key: "1" }),
+    ).toThrow("`key` is not supported for the `flush` event");
+  });
+
+  it("should match key patterns without the prefix", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+    const funcToBeExecutedOnDelete = jest.fn();
+
+    users.on(EVENT.DELETE, funcToBeExecutedOnDelete, { key: "admin:*" });
+
+    await users.set({ key: "admin:1", value: uuid() });
+    await users.set({ key: "guest:1", value: uuid() });
+    await cache.set({ key: "admin:2", value: uuid() });
+    users.delete("admin:1");
+    users.delete("guest:1");
+    cache.delete("admin:2");
+
+    expect(funcToBeExecutedOnDelete).toHaveBeenCalledTimes(1);
+    expect(funcToBeExecutedOnDelete.mock.calls[0][0].key).toBe("admin:1");
+  });
+
+  it("should call once() listeners a single time and remove them with off()", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+    const funcToBeExecutedOnce = jest.fn();
+    const funcToBeRemoved = jest.fn();
+
+    users.once(EVENT.SET, funcToBeExecutedOnce, { key: "1" });
+    users.on(EVENT.SET, funcToBeRemoved, { key: "1" });
+
+    await users.set({ key: "1", value: uuid() });
+    users.off(EVENT.SET, funcToBeRemoved, { key: "1" });
+    await users.set({ key: "1", value: uuid() });
+
+    expect(funcToBeExecutedOnce).toHaveBeenCalledTimes(1);
+    expect(funcToBeRemoved).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only remove the namespace listener registered with the same key in off()", async () => {
+    const cache = createCache();
+    const users = cache.namespace("users");
+    const scoped = jest.fn();
+    const unscoped = jest.fn();
+
+    users.on(EVENT.SET, scoped, { key: "a:*" });
+    users.on(EVENT.SET, scoped, { key: "b:*" });
+    users.on(EVENT.SET, unscoped);
+
+    users.off(EVENT.SET, scoped, { key: "a:*" });
+    users.off(EVENT.SET, unscoped, { key: "zzz:*" });
+
+    await users.set({ key: "a:1", value: uuid() });
+    await users.set({ key: "b:1", value: uuid() });
+
+    expect(scoped).toHaveBeenCalledTimes(1);
+    expect(scoped.mock.calls[0][0].key).toBe("b:1");
+    expect(unscoped).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,601 @@
+import type { EventEmitter } from "node:events";
+import {
+  EVENT,
+  EventFn,
+  EventListener,
+  EventName,
+  EventParamMap,
+  EvictEventFn,
+  InvalidateEventFn,
+  RefetchFailureEventFn,
+} from "./events";
+import type { CacheStats } from "./metrics";
+import { KeyPattern, isSamePattern, isWildcard, toKeyRegExp } from "./pattern";
+import type {
+  EntryInfo,
+  GetOrSetParams,
+  LookupResult,
+  MdeleteResult,
+  MgetOptions,
+  MgetResult,
+  MsetResult,
+  RunCache,
+  SetParams,
+  SourceFn,
+  SourceFnContext,
+  WrapOptions,
+} from "./run-cache";
+
+/**
+ * The parts of a cache a namespace needs beyond its public API.
+ */
+export type NamespaceContext<T> = {
+  emitter: EventEmitter;
+  keys: () => IterableIterator<string>;
+  /** Aborts the fetches in flight for keys starting with the prefix, including keys that aren't stored yet. */
+  abortFetches: (prefix: string) => void;
+  namespace: (prefix: string) => CacheNamespace<T>;
+};
+
+type Listener = {
+  event: EventName;
+  key?: KeyPattern;
+  eventId: string;
+  listener: Parameters<EventEmitter["on"]>[1];
+  /** The callback as registered, to find the listener in `off()`. */
+  callback: unknown;
+};
+
+/**
+ * A view of a cache that transparently prefixes every key with `<name>:`, including the keys of `dependsOn`. Keys in
+ * event payloads and source function contexts are passed without the prefix, and `flush()` and `clearEventListeners()` only touch the namespace.
+ * Every `on*` method returns a function that removes the callback.
+ */
+export class CacheNamespace<T = unknown> {
+  private listeners: Listener[] = [];
+
+  /**
+   * Use `namespace()` of a cache instead of creating namespaces directly.
+   */
+  constructor(
+    private cache: RunCache<T>,
+    readonly prefix: string,
+    private context: NamespaceContext<T>,
+  ) {}
+
+  /**
+   * Returns a namespace nested in this one, prefixing keys with `<prefix><name>:`.
+   *
+   * @param {string} name - The name of the nested namespace.
+   * @returns {CacheNamespace<T>} The nested namespace.
+   *
+   * @throws {Error} If the name is empty.
+   */
+  namespace(name: string): CacheNamespace<T> {
+    if (!name) throw Error("Empty namespace");
+
+    return this.context.namespace(`${this.prefix}${name}:`);
+  }
+
+  /**
+   * Sets a cache entry in the namespace. See {@link RunCache#set}.
+   */
+  set(params: SetParams<T>): Promise<boolean> {
+    return this.cache.set({
+      ...this.paramsOf(params),
+      key: this.keyOf(params.key),
+    });
+  }
+
+  /**
+   * Gets or sets a cache entry in the namespace. See {@link RunCache#getOrSet}.
+   */
+  getOrSet(
+    params: GetOrSetParams<T> & { negativeTtl: number },
+  ): Promise<T | undefined>;
+  getOrSet(params: GetOrSetParams<T>): Promise<T>;
+  getOrSet(params: GetOrSetParams<T>): Promise<T | undefined> {
+    return this.cache.getOrSet({
+      ...this.paramsOf(params),
+      key: this.keyOf(params.key),
+    });
+  }
+
+  /**
+   * Memoizes a function using the namespace. See {@link RunCache#wrap}.
+   */
+  wrap<A extends unknown[]>(
+    fn: (...args: A) => Promise<T> | T,
+    options: WrapOptions<T, A> & { negativeTtl: number },
+  ): (...args: A) => Promise<T | undefined>;
+  wrap<A extends unknown[]>(
+    fn: (...args: A) => Promise<T> | T,
+    options: WrapOptions<T, A>,
+  ): (...args: A) => Promise<T>;
+  wrap<A extends unknown[]>(
+    fn: (...args: A) => Promise<T> | T,
+    { keyFn, ...options }: WrapOptions<T, A>,
+  ): (...args: A) => Promise<T | undefined> {
+    return this.cache.wrap(fn, {
+      ...this.paramsOf(options),
+      keyFn: (...args: A) => this.keyOf(keyFn(...args)),
+    });
+  }
+
+  /**
+   * Retrieves a value from the namespace. See {@link RunCache#get}.
+   */
+  get(key: string): Promise<T | undefined> {
+    return this.cache.get(this.keyOf(key));
+  }
+
+  /**
+   * Retrieves a value from the namespace with its status. See {@link RunCache#lookup}.
+   */
+  lookup(key: string): Promise<LookupResult<T>> {
+    return this.cache.lookup(this.keyOf(key));
+  }
+
+  /**
+   * Checks whether a key of the namespace is cached. See {@link RunCache#has}.
+   */
+  has(key: string): Promise<boolean> {
+    return this.cache.has(this.keyOf(key));
+  }
+
+  /**
+   * Returns the keys of the namespace without the prefix. The pattern is matched against keys without the prefix.
+   * See {@link RunCache#keys}.
+   */
+  keys(pattern?: KeyPattern): string[] {
+    const regExp = pattern !== undefined ? toKeyRegExp(pattern) : undefined;
+
+    return this.cache
+      .keys()
+      .filter((key) => key.startsWith(this.prefix))
+      .map((key) => this.unprefix(key))
+      .filter((key) => !regExp || regExp.test(key));
+  }
+
+  /**
+   * Iterates over the entries of the namespace, keyed without the prefix. See {@link RunCache#entries}.
+   */
+  *entries(): IterableIterator<[string, T]> {
+    for (const [key, value] of this.cache.entries()) {
+      if (key.startsWith(this.prefix)) yield [this.unprefix(key), value];
+    }
+  }
+
+  /**
+   * The number of entries held in the namespace, including nested namespaces. See {@link RunCache#size}.
+   */
+  get size(): number {
+    return Array.from(this.context.keys()).filter((key) =>
+      key.startsWith(this.prefix),
+    ).length;
+  }
+
+  /**
+   * Returns the time left until an entry of the namespace expires. See {@link RunCache#ttl}.
+   */
+  ttl(key: string): number | undefined {
+    return this.cache.ttl(this.keyOf(key));
+  }
+
+  /**
+   * Returns the metadata of an entry of the namespace, keyed without the prefix. See {@link RunCache#inspect}.
+   */
+  inspect(key: string): EntryInfo | undefined {
+    const info = this.cache.inspect(this.keyOf(key));
+
+    return info && { ...info, key };
+  }
+
+  /**
+   * Restarts the TTL of an entry of the namespace. See {@link RunCache#touch}.
+   */
+  touch(key: string, ttl?: number): boolean {
+    return this.cache.touch(this.keyOf(key), ttl);
+  }
+
+  /**
+   * Sets the TTL of an entry of the namespace. See {@link RunCache#expire}.
+   */
+  expire(key: string, ttl: number): boolean {
+    return this.cache.expire(this.keyOf(key), ttl);
+  }
+
+  /**
+   * Removes the TTL of an entry of the namespace. See {@link RunCache#persist}.
+   */
+  persist(key: string): boolean {
+    return this.cache.persist(this.keyOf(key));
+  }
+
+  /**
+   * Refetches a cache entry of the namespace. See {@link RunCache#refetch}.
+   */
+  refetch(key: string, options?: { timeout?: number }): Promise<boolean> {
+    return this.cache.refetch(this.keyOf(key), options);
+  }
+
+  /**
+   * Deletes a cache entry from the namespace. See {@link RunCache#delete}.
+   */
+  delete(key: string): boolean {
+    return this.cache.delete(this.keyOf(key));
+  }
+
+  /**
+   * Retrieves several values from the namespace. The loader receives and the result contains keys without the prefix.
+   * See {@link RunCache#mget}.
+   */
+  async mget(keys: string[], options?: MgetOptions<T>): Promise<MgetResult<T>> {
+    const loader = options?.loader;
+
+    const { hits, misses } = await this.cache.mget(
+      keys.map((key) => this.keyOf(key)),
+      {
+        ...this.paramsOf(options ?? {}),
+        loader:
+          loader &&
+          ((prefixedKeys) =>
+            loader(prefixedKeys.map((key) => this.unprefix(key)))),
+      },
+    );
+
+    return {
+      hits: new Map(
+        Array.from(hits, ([key, value]) => [this.unprefix(key), value]),
+      ),
+      misses: misses.map((key) => this.unprefix(key)),
+    };
+  }
+
+  /**
+   * Sets several cache entries in the namespace. The failures are keyed without the prefix. See {@link RunCache#mset}.
+   */
+  async mset(
+    entries: SetParams<T>[],
+    options?: { concurrency?: number },
+  ): Promise<MsetResult> {
+    const result = await this.cache.mset(
+      entries.map((params) => ({
+        ...this.paramsOf(params),
+        key: this.keyOf(params.key),
+      })),
+      options,
+    );
+
+    return {
+      set: result.set,
+      failed: new Map(
+        Array.from(result.failed, ([key, error]) => [
+          this.unprefix(key),
+          error,
+        ]),
+      ),
+    };
+  }
+
+  /**
+   * Deletes several cache entries from the namespace. See {@link RunCache#mdelete}.
+   */
+  mdelete(keys: string[]): MdeleteResult {
+    return this.cache.mdelete(keys.map((key) => this.keyOf(key)));
+  }
+
+  /**
+   * Checks the existence of several keys in the namespace. See {@link RunCache#mhas}.
+   */
+  async mhas(keys: string[]): Promise<Map<string, boolean>> {
+    const results = await this.cache.mhas(keys.map((key) => this.keyOf(key)));
+
+    return new Map(
+      Array.from(results, ([key, exists]) => [this.unprefix(key), exists]),
+    );
+  }
+
+  /**
+   * Deletes every entry of the namespace, including nested namespaces, cancels their TTL timers and aborts their
+   * fetches in flight. Entries outside the namespace are kept.
+   *
+   * @returns {void}
+   */
+  flush(): void {
+    this.context.abortFetches(this.prefix);
+
+    Array.from(this.context.keys())
+      .filter((key) => key.startsWith(this.prefix))
+      .forEach((key) => this.cache.delete(key));
+  }
+
+  /**
+   * Returns the statistics of the namespace. See {@link RunCache#stats}.
+   *
+   * @param {Object} [filter] - Narrows the stats down to a `key` or a key `prefix` within the namespace.
+   */
+  stats(filter?: { key?: string; prefix?: string }): CacheStats {
+    if (filter?.key !== undefined) {
+      return this.cache.stats({ key: this.keyOf(filter.key) });
+    }
+
+    return this.cache.stats({ prefix: this.prefix + (filter?.prefix ?? "") });
+  }
+
+  /**
+   * Registers a listener for any event of the namespace, e.g. `set`, `delete`, `hit` or `miss`. The `key` is matched
+   * without the prefix. `flush` events of the whole cache are passed on as they are. See {@link RunCache#on}.
+   *
+   * @throws {Error} If the `key` is empty, or given for the `flush` event which is not tied to a key.
+   */
+  on<E extends EventName>(
+    event: E,
+    listener: EventListener<T, E>,
+    options?: { key?: KeyPattern },
+  ): () => void {
+    return this.listenTo(event, listener, options?.key, false);
+  }
+
+  /**
+   * Registers a listener for an event of the namespace that is removed after its first call. See `on()`.
+   */
+  once<E extends EventName>(
+    event: E,
+    listener: EventListener<T, E>,
+    options?: { key?: KeyPattern },
+  ): () => void {
+    return this.listenTo(event, listener, options?.key, true);
+  }
+
+  /**
+   * Removes a listener registered through the namespace with `on()`, `once()` or one of the `on*` methods.
+   *
+   * @param {Object} [options] - Must have the same `key` the listener was registered with.
+   */
+  off<E extends EventName>(
+    event: E,
+    listener: EventListener<T, E>,
+    options?: { key?: KeyPattern },
+  ): void {
+    const eventId = this.eventIdOf(event, options?.key);
+    // Like `RunCache#off()`, remove the last listener registered with the same key or pattern
+    const registered = [...this.listeners]
+      .reverse()
+      .find(
+        (other) =>
+          other.event === event &&
+          other.eventId === eventId &&
+          isSamePattern(other.key, options?.key) &&
+          other.callback === listener,
+      );
+
+    if (!registered) return;
+
+    this.context.emitter.off(registered.eventId, registered.listener);
+    this.listeners = this.listeners.filter((other) => other !== registered);
+  }
+
+  /**
+   * Registers a callback for the `expire` event of any key in the namespace.
+   */
+  onExpiry(callback: EventFn<T>): () => void {
+    return this.listen(EVENT.EXPIRE, undefined, callback);
+  }
+
+  /**
+   * Registers a callback for the `expire` event of a key in the namespace.
+   *
+   * @throws {Error} If the `key` is empty.
+   */
+  onKeyExpiry(key: string, callback: EventFn<T>): () => void {
+    return this.listen(EVENT.EXPIRE, key, callback);
+  }
+
+  /**
+   * Registers a callback for the `refetch` event of any key in the namespace.
+   */
+  onRefetch(callback: EventFn<T>): () => void {
+    return this.listen(EVENT.REFETCH, undefined, callback);
+  }
+
+  /**
+   * Registers a callback for the `refetch` event of a key in the namespace.
+   *
+   * @throws {Error} If the `key` is empty.
+   */
+  onKeyRefetch(key: string, callback: EventFn<T>): () => void {
+    return this.listen(EVENT.REFETCH, key, callback);
+  }
+
+  /**
+   * Registers a callback for the `refetch-failure` event of any key in the namespace.
+   */
+  onRefetchFailure(callback: RefetchFailureEventFn<T>): () => void {
+    return this.listen(EVENT.REFETCH_FAILURE, undefined, callback);
+  }
+
+  /**
+   * Registers a callback for the `refetch-failure` event of a key in the namespace.
+   *
+   * @throws {Error} If the `key` is empty.
+   */
+  onKeyRefetchFailure(
+    key: string,
+    callback: RefetchFailureEventFn<T>,
+  ): () => void {
+    return this.listen(EVENT.REFETCH_FAILURE, key, callback);
+  }
+
+  /**
+   * Registers a callback for the `evict` event of any key in the namespace.
+   */
+  onEvict(callback: EvictEventFn<T>): () => void {
+    return this.listen(EVENT.EVICT, undefined, callback);
+  }
+
+  /**
+   * Registers a callback for the `evict` event of a key in the namespace.
+   *
+   * @throws {Error} If the `key` is empty.
+   */
+  onKeyEvict(key: string, callback: EvictEventFn<T>): () => void {
+    return this.listen(EVENT.EVICT, key, callback);
+  }
+
+  /**
+   * Registers a callback for the `invalidate` event of any key in the namespace.
+   */
+  onInvalidate(callback: InvalidateEventFn<T>): () => void {
+    return this.listen(EVENT.INVALIDATE, undefined, callback);
+  }
+
+  /**
+   * Registers a callback for the `invalidate` event of a key in the namespace.
+   *
+   * @throws {Error} If the `key` is empty.
+   */
+  onKeyInvalidate(key: string, callback: InvalidateEventFn<T>): () => void {
+    return this.listen(EVENT.INVALIDATE, key, callback);
+  }
+
+  /**
+   * Clears event listeners registered through this namespace. Listeners of the parent cache and of other
+   * namespaces are kept. See {@link RunCache#clearEventListeners}.
+   *
+   * @throws {Error} If `key` is provided without an `event`.
+   */
+  clearEventListeners(params?: { event?: EventName; key?: string }): boolean {
+    if (params?.key && !params.event) {
+      throw Error("`key` cannot be provided without `event`");
+    }
+
+    if (params && !params.event) return false;
+
+    this.listeners = this.listeners.filter((listener) => {
+      const matches =
+        params === undefined ||
+        (listener.event === params.event &&
+          (!params.key || listener.key === params.key));
+
+      if (matches) {
+        this.context.emitter.off(listener.eventId, listener.listener);
+      }
+
+      return !matches;
+    });
+
+    return true;
+  }
+
+  private keyOf(key: string): string {
+    // Keep empty keys empty so the cache still rejects them
+    return key ? `${this.prefix}${key}` : key;
+  }
+
+  private paramsOf<P extends { dependsOn?: string[]; sourceFn?: SourceFn<T> }>(
+    params: P,
+  ): P {
+    const { dependsOn, sourceFn } = params;
+
+    return {
+      ...params,
+      ...(dependsOn && {
+        dependsOn: dependsOn.map((key) => this.keyOf(key)),
+      }),
+      // Source functions see the key they were set with
+      ...(sourceFn && {
+        sourceFn: (context: SourceFnContext<T>) =>
+          sourceFn({ ...context, key: this.unprefix(context.key) }),
+      }),
+    };
+  }
+
+  private unprefix(key: string): string {
+    return key.startsWith(this.prefix) ? key.slice(this.prefix.length) : key;
+  }
+
+  private eventIdOf(event: EventName, key?: KeyPattern): string {
+    // Wildcard listeners receive every event and filter the keys themselves
+    if (key === undefined || isWildcard(key)) return event;
+
+    if (!key) throw Error("Empty key");
+
+    return `${event}-${this.prefix}${key}`;
+  }
+
+  private listenTo<E extends EventName>(
+    event: E,
+    callback: EventListener<T, E>,
+    key: KeyPattern | undefined,
+    once: boolean,
+  ): () => void {
+    if (event === EVENT.FLUSH && key !== undefined) {
+      throw Error("`key` is not supported for the `flush` event");
+    }
+
+    if (key !== undefined && isWildcard(key)) {
+      return this.listen(event, undefined, callback, { once, pattern: key });
+    }
+
+    return this.listen(event, key as string | undefined, callback, { once });
+  }
+
+  private listen<E extends EventName>(
+    event: E,
+    key: string | undefined,
+    callback: EventListener<T, E>,
+    { once = false, pattern }: { once?: boolean; pattern?: KeyPattern } = {},
+  ): () => void {
+    if (key !== undefined && !key) throw Error("Empty key");
+
+    const eventId = this.eventIdOf(event, key);
+    const regExp = pattern !== undefined ? toKeyRegExp(pattern) : undefined;
+
+    const listener = (params: EventParamMap<T>[E]) => {
+      const { key: prefixedKey, parent } = params as {
+        key?: string;
+        parent?: string;
+      };
+
+      // Only `flush` has no key, it clears the namespace too
+      if (prefixedKey === undefined) {
+        if (once) unsubscribe();
+
+        callback(params);
+        return;
+      }
+
+      if (!prefixedKey.startsWith(this.prefix)) return;
+
+      const unprefixedKey = this.unprefix(prefixedKey);
+      if (regExp && !regExp.test(unprefixedKey)) return;
+
+      if (once) unsubscribe();
+
+      callback({
+        ...params,
+        key: unprefixedKey,
+        ...(parent !== undefined && { parent: this.unprefix(parent) }),
+      });
+    };
+
+    const registered: Listener = {
+      event,
+      key: key ?? pattern,
+      eventId,
+      listener,
+      callback,
+    };
+
+    const unsubscribe = () => {
+      this.context.emitter.off(eventId, listener);
+      this.listeners = this.listeners.filter((other) => other !== registered);
+    };
+
+    this.context.emitter.on(eventId, listener);
+    this.listeners.push(registered);
+
+    return unsubscribe;
+  }
+}
@@ -0,0 +1,208 @@
+import { LOOKUP_STATUS, SourceFnError, createCache } from "./run-cache";
+
+describe("RunCache negative caching", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("should cache a missing value for negativeTtl", async () => {
+    const cache = createCache<string>();
+    const sourceFn = jest.fn((): string | undefined => undefined);
+
+    const getUser = () =>
+      cache.getOrSet({
+        key: "user",
+        sourceFn: sourceFn as () => string,
+        ttl: 1000,
+        negativeTtl: 100,
+      });
+
+    expect(await getUser()).toBeUndefined();
+    expect(await getUser()).toBeUndefined();
+    expect(sourceFn).toHaveBeenCalledTimes(1);
+
+    expect(await cache.lookup("user")).toStrictEqual({
+      status: LOOKUP_STATUS.NEGATIVE,
+    });
+    expect(await cache.lookup("other")).toStrictEqual({
+      status: LOOKUP_STATUS.MISS,
+    });
+    expect(await cache.has("user")).toBe(false);
+    expect(cache.ttl("user")).toBe(100);
+
+    jest.advanceTimersByTime(101);
+    sourceFn.mockReturnValue("found");
+
+    expect(await getUser()).toBe("found");
+    expect(sourceFn).toHaveBeenCalledTimes(2);
+    expect(cache.ttl("user")).toBe(1000);
+  });
+
+  it("should fetch a cached miss again in getOrSet() without negativeTtl", async () => {
+    const cache = createCache<string>();
+
+    await cache.set({
+      key: "user",
+      sourceFn: () => undefined as unknown as string,
+      negativeTtl: 100,
+    });
+
+    expect(
+      await cache.getOrSet({ key: "user", sourceFn: () => "found", ttl: 1000 }),
+    ).toBe("found");
+    expect(await cache.lookup("user")).toStrictEqual({
+      status: LOOKUP_STATUS.HIT,
+      value: "found",
+    });
+  });
+
+  it("should cache a missing value found by a refetch", async () => {
+    const cache = createCache<string>();
+    let value: string | undefined = "value";
+
+    await cache.set({
+      key: "key",
+      sourceFn: () => value as string,
+      ttl: 1000,
+      autoRefetch: true,
+      negativeTtl: 100,
+    });
+
+    value = undefined;
+    await cache.refetch("key");
+
+    expect(await cache.lookup("key")).toStrictEqual({
+      status: LOOKUP_STATUS.NEGATIVE,
+    });
+
+    value = "back";
+    jest.advanceTimersByTime(101);
+
+    expect(await cache.get("key")).toBe("back");
+  });
+
+  it("should re-throw a cached error for errorTtl", async () => {
+    const cache = createCache<string>();
+    const sourceFn = jest.fn((): string => {
+      throw new Error("Upstream is down");
+    });
+
+    const getUser = () =>
+      cache.getOrSet({ key: "user", sourceFn, errorTtl: 100 });
+
+    const error = await getUser().catch((e) => e);
+
+    expect(error).toBeInstanceOf(SourceFnError);
+    expect(error.cause).toStrictEqual(new Error("Upstream is down"));
+
+    await expect(getUser()).rejects.toBe(error);
+    await expect(cache.get("user")).rejects.toBe(error);
+    expect(await cache.lookup("user")).toStrictEqual({
+      status: LOOKUP_STATUS.ERROR,
+      error,
+    });
+    expect(sourceFn).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(101);
+    sourceFn.mockReturnValue("found");
+
+    expect(await getUser()).toBe("found");
+  });
+
+  it("should expire cached misses and errors without a ttl once", async () => {
+    const cache = createCache<string>();
+    const funcToBeExecutedOnExpiry = jest.fn();
+
+    cache.onExpiry(funcToBeExecutedOnExpiry);
+
+    await cache.set({
+      key: "missing",
+      sourceFn: () => undefined as unknown as string,
+      negativeTtl: 50,
+    });
+    await cache
+      .set({
+        key: "failing",
+        sourceFn: () => {
+          throw new Error("Upstream is down");
+        },
+        errorTtl: 50,
+      })
+      .catch(() => undefined);
+
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(2);
+    expect(cache.stats().expiries).toBe(2);
+    expect(cache.size).toBe(0);
+    expect(await cache.lookup("missing")).toStrictEqual({
+      status: LOOKUP_STATUS.MISS,
+    });
+  });
+
+  it("should cache a failed refetch of an expired entry", async () => {
+    const cache = createCache<string>();
+    const sourceFn = jest.fn(() => "value");
+
+    await cache.set({
+      key: "key",
+      sourceFn,
+      ttl: 100,
+      autoRefetch: true,
+      errorTtl: 50,
+    });
+
+    sourceFn.mockImplementation(() => {
+      throw new Error("Upstream is down");
+    });
+
+    jest.advanceTimersByTime(101);
+    await Promise.resolve();
+
+    await expect(cache.get("key")).rejects.toBeInstanceOf(SourceFnError);
+    await expect(cache.get("key")).rejects.toBeInstanceOf(SourceFnError);
+
+    const calls = sourceFn.mock.calls.length;
+
+    jest.advanceTimersByTime(25);
+    await expect(cache.get("key")).rejects.toBeInstanceOf(SourceFnError);
+    expect(sourceFn).toHaveBeenCalledTimes(calls);
+
+    sourceFn.mockReturnValue("recovered");
+    jest.advanceTimersByTime(26);
+
+    expect(await cache.get("key")).toBe("recovered");
+  });
+
+  it("should not load cached misses again in mget()", async () => {
+    const cache = createCache<string>();
+    const loader = jest.fn((keys: string[]) =>
+      keys.map((key) => (key === "a" ? "a" : undefined)),
+    );
+
+    await cache.mget(["a", "b"], { loader, negativeTtl: 100 });
+    const result = await cache.mget(["a", "b"], { loader, negativeTtl: 100 });
+
+    expect(result).toStrictEqual({
+      hits: new Map([["a", "a"]]),
+      misses: ["b"],
+    });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("should validate negativeTtl and errorTtl", async () => {
+    const cache = createCache<string>();
+
+    await expect(
+      cache.set({ key: "key", value: "value", negativeTtl: 0 }),
+    ).rejects.toThrow("Value `negativeTtl` must be a positive number");
+    await expect(
+      cache.set({ key: "key", value: "value", errorTtl: -1 }),
+    ).rejects.toThrow("Value `errorTtl` must be a positive number");
+  });
+});
@@ -0,0 +1,41 @@
+import { isSamePattern, toKeyRegExp } from "./pattern";
+
+describe("toKeyRegExp()", () => {
+  it("should match whole keys with glob wildcards", () => {
+    const regExp = toKeyRegExp("user:4?:*");
+
+    expect(regExp.test("user:42:profile")).toStrictEqual(true);
+    expect(regExp.test("user:42:")).toStrictEqual(true);
+    expect(regExp.test("user:420:profile")).toStrictEqual(false);
+    expect(regExp.test("admin:user:42:profile")).toStrictEqual(false);
+  });
+
+  it("should treat other special characters literally", () => {
+    const regExp = toKeyRegExp("a.b+(c)");
+
+    expect(regExp.test("a.b+(c)")).toStrictEqual(true);
+    expect(regExp.test("axbb(c)")).toStrictEqual(false);
+  });
+
+  it("should drop stateful flags from regular expressions", () => {
+    const regExp = toKeyRegExp(/^user:/g);
+
+    expect(regExp.test("user:1")).toStrictEqual(true);
+    expect(regExp.test("user:1")).toStrictEqual(true);
+  });
+
+  it("should throw an error for an empty pattern", () => {
+    expect(() => toKeyRegExp("")).toThrow("Empty pattern");
+  });
+});
+
+describe("isSamePattern()", () => {
+  it("should compare globs by value and regular expressions by source and flags", () => {
+    expect(isSamePattern("user:*", "user:*")).toStrictEqual(true);
+    expect(isSamePattern("user:*", "post:*")).toStrictEqual(false);
+    expect(isSamePattern(/^user:/i, /^user:/i)).toStrictEqual(true);
+    expect(isSamePattern(/^user:/i, /^user:/)).toStrictEqual(false);
+    expect(isSamePattern("/^user:/", /^user:/)).toStrictEqual(false);
+    expect(isSamePattern(undefined, "user:*")).toStrictEqual(false);
+  });
+});
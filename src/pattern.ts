@@ -0,0 +1,49 @@
+export type KeyPattern = string | RegExp;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Checks whether a pattern can match more than a single key, i.e. it is a regular expression or a glob with wildcards.
+ */
+export const isWildcard = (pattern: KeyPattern): boolean =>
+  pattern instanceof RegExp || /[*?]/.test(pattern);
+
+/**
+ * Checks whether two patterns are the same, comparing regular expressions by their source and flags.
+ */
+export const isSamePattern = (a?: KeyPattern, b?: KeyPattern): boolean =>
+  a instanceof RegExp && b instanceof RegExp
+    ? a.source === b.source && a.flags === b.flags
+    : a === b;
+
+/**
+ * Converts a key pattern into a regular expression that matches whole keys.
+ *
+ * String patterns are globs where `*` matches any number of characters and `?` matches a single character,
+ * e.g. `user:42:*`. Regular expressions are used as they are, without their `g` and `y` flags so repeated
+ * tests don't depend on `lastIndex`.
+ *
+ * @param {KeyPattern} pattern - A glob string or a regular expression.
+ * @returns {RegExp} The regular expression to test keys with.
+ *
+ * @throws {Error} If the pattern is an empty string.
+ */
+export function toKeyRegExp(pattern: KeyPattern): RegExp {
+  if (pattern instanceof RegExp) {
+    return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ""));
+  }
+
+  if (!pattern) throw new Error("Empty pattern");
+
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return escapeRegExp(char);
+    })
+    .join("");
+
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,178 @@
+import { RunCachePlugin, createCache } from "./run-cache";
+import { v4 as uuid } from "uuid";
+
+describe("RunCache plugins", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  const base64: RunCachePlugin<string> = {
+    beforeSet: ({ value }) => ({
+      value: Buffer.from(value).toString("base64"),
+    }),
+    afterGet: ({ value }) => ({
+      value: value && Buffer.from(value, "base64").toString(),
+    }),
+  };
+
+  it("should transform values on write and read", async () => {
+    const cache = createCache<string>();
+    const refetched = jest.fn();
+    const value = uuid();
+
+    cache.use(base64);
+    cache.onRefetch(refetched);
+
+    await cache.set({ key: "key", value });
+
+    await expect(cache.get("key")).resolves.toStrictEqual(value);
+    await expect(
+      cache.getOrSet({ key: "other", sourceFn: () => value }),
+    ).resolves.toStrictEqual(value);
+    await expect(cache.mget(["key", "missing"])).resolves.toStrictEqual({
+      hits: new Map([["key", value]]),
+      misses: ["missing"],
+    });
+
+    await cache.set({ key: "source", sourceFn: () => value });
+    await cache.refetch("source");
+
+    // Listeners see the stored value
+    expect(refetched).toHaveBeenCalledWith(
+      expect.objectContaining({
+        value: Buffer.from(value).toString("base64"),
+      }),
+    );
+    await expect(cache.get("source")).resolves.toStrictEqual(value);
+  });
+
+  it("should run after hooks in reverse order", async () => {
+    const cache = createCache<string>();
+    const calls: string[] = [];
+
+    const plugin = (name: string): RunCachePlugin<string> => ({
+      beforeSet: ({ value }) => {
+        calls.push(`beforeSet:${name}`);
+        return { value: `${value}:${name}` };
+      },
+      afterSet: () => {
+        calls.push(`afterSet:${name}`);
+      },
+    });
+
+    cache.use(plugin("a"));
+    cache.use(plugin("b"));
+
+    await cache.set({ key: "key", value: "value" });
+
+    expect(calls).toStrictEqual([
+      "beforeSet:a",
+      "beforeSet:b",
+      "afterSet:b",
+      "afterSet:a",
+    ]);
+    await expect(cache.get("key")).resolves.toStrictEqual("value:a:b");
+  });
+
+  it("should let plugins veto writes", async () => {
+    const cache = createCache<number>();
+
+    cache.use({
+      beforeSet: ({ value }) => (value < 0 ? false : undefined),
+    });
+
+    await expect(cache.set({ key: "key", value: -1 })).resolves.toStrictEqual(
+      false,
+    );
+    await expect(cache.has("key")).resolves.toStrictEqual(false);
+
+    await expect(
+      cache.getOrSet({ key: "key", sourceFn: () => -2 }),
+    ).resolves.toStrictEqual(-2);
+    await expect(cache.has("key")).resolves.toStrictEqual(false);
+
+    await expect(
+      cache.mset([
+        { key: "a", value: 1 },
+        { key: "b", value: -1 },
+      ]),
+    ).resolves.toStrictEqual({ set: 1, failed: new Map() });
+  });
+
+  it("should let plugins answer reads", async () => {
+    const cache = createCache<string>();
+    const afterGet = jest.fn();
+
+    cache.use({
+      beforeGet: ({ key }) =>
+        key.startsWith("static:") ? { value: "static" } : undefined,
+      afterGet,
+    });
+
+    await expect(cache.get("static:key")).resolves.toStrictEqual("static");
+    await expect(cache.get("key")).resolves.toBeUndefined();
+
+    expect(afterGet).toHaveBeenCalledTimes(1);
+    expect(afterGet).toHaveBeenCalledWith({ key: "key", value: undefined });
+  });
+
+  it("should let plugins skip refetches and keep the previous value", async () => {
+    const cache = createCache<number>();
+    const afterRefetch = jest.fn();
+    let version = 0;
+
+    await cache.set({ key: "key", sourceFn: () => ++version });
+
+    cache.use({
+      beforeRefetch: ({ value }) => (value >= 2 ? false : undefined),
+      afterRefetch,
+    });
+
+    await expect(cache.refetch("key")).resolves.toStrictEqual(true);
+    await expect(cache.get("key")).resolves.toStrictEqual(2);
+    expect(afterRefetch).toHaveBeenCalledWith({ key: "key", value: 2 });
+
+    await expect(cache.refetch("key")).resolves.toStrictEqual(false);
+    expect(version).toStrictEqual(2);
+  });
+
+  it("should notify plugins of deletions", async () => {
+    const cache = createCache<string>();
+    const onDelete = jest.fn();
+
+    const remove = cache.use({ onDelete });
+
+    await cache.set({ key: "key", value: "value" });
+
+    expect(cache.delete("key")).toStrictEqual(true);
+    expect(cache.delete("key")).toStrictEqual(false);
+    expect(onDelete).toHaveBeenCalledTimes(1);
+    expect(onDelete).toHaveBeenCalledWith({ key: "key", value: "value" });
+
+    remove();
+    await cache.set({ key: "key", value: "value" });
+    cache.delete("key");
+
+    expect(onDelete).toHaveBeenCalledTimes(1);
+  });
+
+  it("should propagate errors thrown by hooks", async () => {
+    const cache = createCache<string>();
+
+    cache.use({
+      beforeSet: () => {
+        throw new Error("Invalid value");
+      },
+    });
+
+    await expect(cache.set({ key: "key", value: "value" })).rejects.toThrow(
+      "Invalid value",
+    );
+    await expect(cache.has("key")).resolves.toStrictEqual(false);
+  });
+});
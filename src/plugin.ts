@@ -0,0 +1,122 @@
+type MaybePromise<R> = Promise<R> | R;
+
+/**
+ * Hooks run around cache operations. Every hook is optional and may be async.
+ *
+ * `before*` hooks run in the order the plugins were added and `after*` hooks in reverse order, so a plugin
+ * added later sees the values written by the plugins added before it, and reads are undone in the opposite order.
+ */
+export type RunCachePlugin<T = unknown> = {
+  /** Runs before a `get()`. Return `{ value }` to answer the read without looking at the cache. */
+  beforeGet?: (context: { key: string }) => MaybePromise<{ value: T } | void>;
+  /** Runs after a `get()` read the cache, with `undefined` on a miss. Return `{ value }` to return another value. */
+  afterGet?: (context: {
+    key: string;
+    value: T | undefined;
+  }) => MaybePromise<{ value: T | undefined } | void>;
+  /**
+   * Runs before a value is stored by `set()`, `getOrSet()`, `mget()` or a refetch. Return `{ value }` to store another
+   * value, or `false` to keep the cache as it is.
+   */
+  beforeSet?: (context: {
+    key: string;
+    value: T;
+  }) => MaybePromise<{ value: T } | false | void>;
+  /** Runs after a value was stored, with the value as stored. */
+  afterSet?: (context: { key: string; value: T }) => MaybePromise<void>;
+  /** Runs before the source function of an entry is called again. Return `false` to skip the refetch. */
+  beforeRefetch?: (context: {
+    key: string;
+    value: T;
+  }) => MaybePromise<false | void>;
+  /** Runs after a refetched value was stored. */
+  afterRefetch?: (context: { key: string; value: T }) => MaybePromise<void>;
+  /** Runs after `delete()` removed an entry, with the value it held. */
+  onDelete?: (context: { key: string; value: T }) => void;
+};
+
+/**
+ * Runs the hooks of the plugins added to a cache.
+ */
+export class PluginChain<T> {
+  private plugins: RunCachePlugin<T>[] = [];
+
+  /**
+   * @returns {Function} A function that removes the plugin.
+   */
+  add(plugin: RunCachePlugin<T>): () => void {
+    this.plugins.push(plugin);
+
+    return () => {
+      this.plugins = this.plugins.filter((added) => added !== plugin);
+    };
+  }
+
+  get size(): number {
+    return this.plugins.length;
+  }
+
+  async beforeGet(key: string): Promise<{ value: T } | undefined> {
+    for (const plugin of this.plugins) {
+      const result = await plugin.beforeGet?.({ key });
+      if (result) return result;
+    }
+
+    return undefined;
+  }
+
+  async afterGet(key: string, value: T | undefined): Promise<T | undefined> {
+    for (const plugin of this.reversed()) {
+      const result = await plugin.afterGet?.({ key, value });
+      if (result) value = result.value;
+    }
+
+    return value;
+  }
+
+  /**
+   * @returns {Promise<{ value: T } | undefined>} The value to store, or `undefined` if a plugin vetoed the write.
+   */
+  async beforeSet(key: string, value: T): Promise<{ value: T } | undefined> {
+    for (const plugin of this.plugins) {
+      const result = await plugin.beforeSet?.({ key, value });
+      if (result === false) return undefined;
+      if (result) value = result.value;
+    }
+
+    return { value };
+  }
+
+  async afterSet(key: string, value: T): Promise<void> {
+    for (const plugin of this.reversed()) {
+      await plugin.afterSet?.({ key, value });
+    }
+  }
+
+  /**
+   * @returns {Promise<boolean>} `false` if a plugin skipped the refetch.
+   */
+  async beforeRefetch(key: string, value: T): Promise<boolean> {
+    for (const plugin of this.plugins) {
+      if ((await plugin.beforeRefetch?.({ key, value })) === false) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  async afterRefetch(key: string, value: T): Promise<void> {
+    for (const plugin of this.reversed()) {
+      await plugin.afterRefetch?.({ key, value });
+    }
+  }
+
+  onDelete(key: string, value: T): void {
+    this.reversed().forEach((plugin) => plugin.onDelete?.({ key, value }));
+  }
+
+  private reversed(): RunCachePlugin<T>[] {
+    return [...this.plugins].reverse();
+  }
+}
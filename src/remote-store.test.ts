@@ -0,0 +1,193 @@
+import * as net from "node:net";
+import { FakeRespServer } from "./fake-resp-server";
+import { RespError } from "./errors";
+import { RedisStore } from "./remote-store";
+import { createCache } from "./run-cache";
+import { v4 as uuid } from "uuid";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("RedisStore", () => {
+  let server: FakeRespServer;
+  let port: number;
+  let stores: RedisStore[];
+
+  const createStore = (options = {}) => {
+    const store = new RedisStore({ port, ...options });
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    server = new FakeRespServer({ password: "secret" });
+    port = await server.listen();
+    stores = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.map((store) => store.close()));
+    await server.close();
+  });
+
+  it("should set, get and delete entries", async () => {
+    const store = createStore({ password: "secret" });
+    const key = uuid();
+    const entry = {
+      value: { nested: [1, 2], buffer: Buffer.from("value") },
+      createAt: 1,
+      updateAt: 2,
+      tags: ["tag"],
+    };
+
+    await store.set(key, entry);
+
+    await expect(store.get(key)).resolves.toStrictEqual(entry);
+    await expect(store.delete(key)).resolves.toStrictEqual(true);
+    await expect(store.delete(key)).resolves.toStrictEqual(false);
+    await expect(store.get(key)).resolves.toBeUndefined();
+  });
+
+  it("should expire entries with their remaining ttl", async () => {
+    const store = createStore({ password: "secret", keyPrefix: "app:" });
+    const key = uuid();
+
+    await store.set(key, {
+      value: uuid(),
+      createAt: Date.now(),
+      updateAt: Date.now() - 950,
+      ttl: 1000,
+    });
+
+    const pttl = (await store.command(["PTTL", `app:${key}`])) as number;
+    expect(pttl).toBeGreaterThan(0);
+    expect(pttl).toBeLessThanOrEqual(50);
+
+    await wait(pttl + 10);
+
+    await expect(store.get(key)).resolves.toBeUndefined();
+  });
+
+  it("should reject commands with the error reply of the server", async () => {
+    await expect(createStore().get(uuid())).rejects.toThrow(
+      "NOAUTH Authentication required.",
+    );
+    await expect(
+      createStore({ password: "wrong" }).get(uuid()),
+    ).rejects.toBeInstanceOf(RespError);
+  });
+
+  it("should connect again after the connection was lost", async () => {
+    const store = createStore({ password: "secret" });
+    const key = uuid();
+
+    await store.set(key, { value: "value", createAt: 1, updateAt: 1 });
+
+    server.disconnectAll();
+    await wait(10);
+
+    await expect(store.get(key)).resolves.toMatchObject({ value: "value" });
+  });
+
+  it("should reject commands when the server can't be reached", async () => {
+    await server.close();
+
+    await expect(createStore().get(uuid())).rejects.toThrow("ECONNREFUSED");
+
+    server = new FakeRespServer();
+    await server.listen();
+  });
+
+  it("should drop the connection when the server stops replying", async () => {
+    const silent = net.createServer((socket) => socket.on("data", () => {}));
+    await new Promise<void>((resolve) => silent.listen(0, resolve));
+
+    const store = createStore({
+      port: (silent.address() as net.AddressInfo).port,
+      commandTimeout: 50,
+    });
+
+    await expect(store.get(uuid())).rejects.toThrow(
+      "Command timed out after 50ms",
+    );
+
+    await new Promise((resolve) => silent.close(resolve));
+  });
+
+  describe("as the remote tier of a cache", () => {
+    it("should treat an unreachable store as a miss when reading", async () => {
+      await server.close();
+
+      const cache = createCache({ remote: createStore() });
+      const key = uuid();
+      const value = uuid();
+
+      await expect(cache.get(key)).resolves.toBeUndefined();
+      await expect(cache.has(key)).resolves.toStrictEqual(false);
+      await expect(
+        cache.getOrSet({ key, sourceFn: () => value }),
+      ).resolves.toStrictEqual(value);
+      await expect(cache.get(key)).resolves.toStrictEqual(value);
+
+      cache.dispose();
+
+      server = new FakeRespServer();
+      await server.listen();
+    });
+
+    it("should share entries between instances", async () => {
+      const cache = createCache({
+        remote: createStore({ password: "secret" }),
+      });
+      const anotherCache = createCache({
+        remote: createStore({ password: "secret" }),
+      });
+      const key = uuid();
+      const value = uuid();
+
+      await cache.set({ key, value, ttl: 1000, tags: ["tag"] });
+
+      await expect(anotherCache.has(key)).resolves.toStrictEqual(true);
+      await expect(anotherCache.get(key)).resolves.toStrictEqual(value);
+      expect(anotherCache.stats().hits).toStrictEqual(1);
+
+      // The local copy keeps the tags of the entry
+      expect(anotherCache.invalidateByTag("tag")).toStrictEqual(1);
+      await wait(10);
+
+      // Only the instance that still has a local copy reports it as deleted
+      expect(cache.delete(key)).toStrictEqual(true);
+      await expect(
+        createCache({ remote: createStore({ password: "secret" }) }).get(key),
+      ).resolves.toBeUndefined();
+
+      anotherCache.dispose();
+      cache.dispose();
+    });
+
+    it("should write refetched values through and skip the source function of cached keys", async () => {
+      const cache = createCache({
+        remote: createStore({ password: "secret" }),
+      });
+      const anotherCache = createCache({
+        remote: createStore({ password: "secret" }),
+      });
+      const key = uuid();
+      let value = uuid();
+
+      await cache.set({ key, sourceFn: () => value });
+
+      value = uuid();
+      await cache.refetch(key);
+
+      const sourceFn = jest.fn(() => uuid());
+
+      await expect(
+        anotherCache.getOrSet({ key, sourceFn }),
+      ).resolves.toStrictEqual(value);
+      expect(sourceFn).toHaveBeenCalledTimes(0);
+
+      cache.dispose();
+      anotherCache.dispose();
+    });
+  });
+});
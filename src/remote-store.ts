@@ -0,0 +1,232 @@
+import * as net from "node:net";
+import { RespError } from "./errors";
+import { RespParser, RespReply, encodeCommand } from "./resp";
+import { reviveBuffers } from "./storage-adapter";
+
+export type RemoteEntry = {
+  value: unknown;
+  createAt: number;
+  updateAt: number;
+  ttl?: number;
+  tags?: string[];
+};
+
+/**
+ * A store shared by several cache instances, usually in different processes. Implement it to put the
+ * second cache tier in any key-value store.
+ */
+export interface RemoteStore {
+  /** Resolves to `undefined` when the key is not stored or has expired. */
+  get(key: string): Promise<RemoteEntry | undefined>;
+  /** Stores the entry, expiring it `ttl` milliseconds after `updateAt` if it has a `ttl`. */
+  set(key: string, entry: RemoteEntry): Promise<void>;
+  /** Resolves to `true` if the key was stored. */
+  delete(key: string): Promise<boolean>;
+}
+
+export type RedisStoreOptions = {
+  /** Defaults to `127.0.0.1`. */
+  host?: string;
+  /** Defaults to `6379`. */
+  port?: number;
+  /** Sent with `AUTH` right after connecting. */
+  password?: string;
+  /** Prepended to every key, to share a server with other applications. */
+  keyPrefix?: string;
+  /** Time in milliseconds to wait for the connection. Defaults to `5000`. */
+  connectTimeout?: number;
+  /** Time in milliseconds to wait for the reply of a command before the connection is dropped. Defaults to `5000`. */
+  commandTimeout?: number;
+};
+
+type PendingReply = {
+  resolve: (reply: RespReply) => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * Stores entries as JSON in a server speaking the Redis protocol, over a single pipelined connection.
+ * The connection is opened on the first command and opened again after it is lost.
+ */
+export class RedisStore implements RemoteStore {
+  private socket?: net.Socket;
+  private connecting?: Promise<net.Socket>;
+  private pending: PendingReply[] = [];
+
+  constructor(private options: RedisStoreOptions = {}) {}
+
+  async get(key: string): Promise<RemoteEntry | undefined> {
+    const reply = await this.command(["GET", this.keyOf(key)]);
+    if (reply === null) return undefined;
+
+    return JSON.parse(reply as string, reviveBuffers);
+  }
+
+  async set(key: string, entry: RemoteEntry): Promise<void> {
+    if (entry.ttl === undefined) {
+      await this.command(["SET", this.keyOf(key), JSON.stringify(entry)]);
+      return;
+    }
+
+    const remaining = entry.updateAt + entry.ttl - Date.now();
+
+    if (remaining <= 0) {
+      await this.delete(key);
+      return;
+    }
+
+    await this.command([
+      "SET",
+      this.keyOf(key),
+      JSON.stringify(entry),
+      "PX",
+      Math.ceil(remaining),
+    ]);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.command(["DEL", this.keyOf(key)])) === 1;
+  }
+
+  /**
+   * Sends a raw command and resolves to its reply.
+   *
+   * @param {(string | number)[]} args - The command name followed by its arguments.
+   * @returns {Promise<RespReply>} The reply of the server.
+   *
+   * @throws {RespError} If the server replies with an error.
+   * @throws {Error} If the server doesn't reply within `commandTimeout`.
+   */
+  async command(args: (string | number)[]): Promise<RespReply> {
+    const socket = await this.connect();
+
+    return this.send(socket, args);
+  }
+
+  /**
+   * Closes the connection. Pending commands are rejected, the next command opens a new connection.
+   */
+  async close(): Promise<void> {
+    const socket =
+      this.socket ?? (await this.connecting?.catch(() => undefined));
+    if (!socket) return;
+
+    await new Promise<void>((resolve) => {
+      socket.once("close", () => resolve());
+      socket.end();
+    });
+  }
+
+  private keyOf(key: string): string {
+    return `${this.options.keyPrefix ?? ""}${key}`;
+  }
+
+  private send(
+    socket: net.Socket,
+    args: (string | number)[],
+  ): Promise<RespReply> {
+    const { commandTimeout = 5000 } = this.options;
+
+    return new Promise<RespReply>((resolve, reject) => {
+      // Replies are matched to commands by their order, so a server that stopped replying needs a new connection
+      const timer = setTimeout(() => {
+        socket.destroy(
+          new Error(`Command timed out after ${commandTimeout}ms`),
+        );
+      }, commandTimeout);
+
+      this.pending.push({
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    const {
+      host = "127.0.0.1",
+      port = 6379,
+      connectTimeout = 5000,
+    } = this.options;
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection({ host, port });
+      const parser = new RespParser();
+      let lastError: Error | undefined;
+
+      socket.setNoDelay(true);
+      socket.setTimeout(connectTimeout, () => {
+        socket.destroy(
+          new Error(`Connection timed out after ${connectTimeout}ms`),
+        );
+      });
+
+      socket.on("data", (chunk: Buffer) => {
+        let replies: RespReply[];
+
+        try {
+          replies = parser.feed(chunk);
+        } catch (e) {
+          socket.destroy(e as Error);
+          return;
+        }
+
+        replies.forEach((reply) => {
+          const pending = this.pending.shift();
+
+          if (reply instanceof RespError) {
+            pending?.reject(reply);
+          } else {
+            pending?.resolve(reply);
+          }
+        });
+      });
+
+      socket.on("close", () => {
+        const error = lastError ?? new Error("Connection closed");
+
+        if (this.socket === socket || !this.socket) {
+          this.socket = undefined;
+          this.connecting = undefined;
+        }
+
+        this.pending.splice(0).forEach((pending) => pending.reject(error));
+        reject(error);
+      });
+
+      // The `close` event that always follows rejects the pending commands
+      socket.on("error", (e) => {
+        lastError = e;
+      });
+
+      socket.once("connect", async () => {
+        socket.setTimeout(0);
+
+        try {
+          if (this.options.password !== undefined) {
+            await this.send(socket, ["AUTH", this.options.password]);
+          }
+        } catch (e) {
+          reject(e);
+          socket.destroy();
+          return;
+        }
+
+        this.socket = socket;
+        resolve(socket);
+      });
+    });
+
+    return this.connecting;
+  }
+}
@@ -0,0 +1,61 @@
+import { RespError } from "./errors";
+import { RespParser, encodeCommand, encodeReply } from "./resp";
+
+describe("resp", () => {
+  describe("encodeCommand()", () => {
+    it("should encode a command as an array of bulk strings", () => {
+      expect(encodeCommand(["SET", "ключ", 10]).toString()).toStrictEqual(
+        "*3\r\n$3\r\nSET\r\n$8\r\nключ\r\n$2\r\n10\r\n",
+      );
+    });
+  });
+
+  describe("encodeReply()", () => {
+    it("should encode every reply type", () => {
+      expect(
+        encodeReply([
+          "value",
+          1,
+          null,
+          new RespError("ERR failure"),
+          ["nested"],
+        ]).toString(),
+      ).toStrictEqual(
+        "*5\r\n$5\r\nvalue\r\n:1\r\n$-1\r\n-ERR failure\r\n*1\r\n$6\r\nnested\r\n",
+      );
+      expect(encodeReply({ status: "OK" }).toString()).toStrictEqual("+OK\r\n");
+    });
+  });
+
+  describe("RespParser", () => {
+    it("should decode replies split across chunks", () => {
+      const parser = new RespParser();
+      const encoded = Buffer.concat([
+        encodeReply({ status: "OK" }),
+        encodeReply(["a", ["b", 2]]),
+        encodeReply(null),
+      ]);
+
+      const replies = [];
+
+      for (let i = 0; i < encoded.length; i += 3) {
+        replies.push(...parser.feed(encoded.subarray(i, i + 3)));
+      }
+
+      expect(replies).toStrictEqual(["OK", ["a", ["b", 2]], null]);
+    });
+
+    it("should decode error replies as errors", () => {
+      const [reply] = new RespParser().feed(Buffer.from("-ERR failure\r\n"));
+
+      expect(reply).toBeInstanceOf(RespError);
+      expect((reply as RespError).message).toStrictEqual("ERR failure");
+    });
+
+    it("should throw an error on an unknown reply type", () => {
+      expect(() => new RespParser().feed(Buffer.from("?\r\n"))).toThrow(
+        "Invalid RESP type: '?'",
+      );
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { RespError } from "./errors";
+
+/**
+ * A reply of the Redis serialization protocol (RESP2). Bulk strings are decoded as UTF-8,
+ * null bulk strings and null arrays as `null`.
+ */
+export type RespReply = string | number | null | RespError | RespReply[];
+
+const CRLF = "\r\n";
+
+/**
+ * Encodes a command as an array of bulk strings, the way clients send commands to the server.
+ *
+ * @param {(string | number)[]} args - The command name followed by its arguments.
+ * @returns {Buffer} The encoded command.
+ */
+export function encodeCommand(args: (string | number)[]): Buffer {
+  return Buffer.from(
+    `*${args.length}${CRLF}` +
+      args
+        .map((arg) => {
+          const value = String(arg);
+          return `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+        })
+        .join(""),
+  );
+}
+
+/**
+ * Encodes a reply. Strings are encoded as bulk strings, use `status` for simple strings such as `OK`.
+ *
+ * @param {RespReply | { status: string }} reply - The reply to encode.
+ * @returns {Buffer} The encoded reply.
+ */
+export function encodeReply(reply: RespReply | { status: string }): Buffer {
+  if (reply === null) return Buffer.from(`$-1${CRLF}`);
+
+  if (reply instanceof RespError) {
+    return Buffer.from(`-${reply.message}${CRLF}`);
+  }
+
+  if (typeof reply === "number") return Buffer.from(`:${reply}${CRLF}`);
+
+  if (typeof reply === "string") {
+    return Buffer.from(`$${Buffer.byteLength(reply)}${CRLF}${reply}${CRLF}`);
+  }
+
+  if (Array.isArray(reply)) {
+    return Buffer.concat([
+      Buffer.from(`*${reply.length}${CRLF}`),
+      ...reply.map(encodeReply),
+    ]);
+  }
+
+  return Buffer.from(`+${reply.status}${CRLF}`);
+}
+
+/**
+ * Decodes replies from a stream of chunks. Replies may be split across chunks at any byte.
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * Adds a chunk of the stream.
+   *
+   * @param {Buffer} chunk - The received bytes.
+   * @returns {RespReply[]} Every reply completed by the chunk, in order.
+   *
+   * @throws {Error} If the stream is not valid RESP.
+   */
+  feed(chunk: Buffer): RespReply[] {
+    this.buffer = this.buffer.length
+      ? Buffer.concat([this.buffer, chunk])
+      : chunk;
+
+    const replies: RespReply[] = [];
+    let offset = 0;
+
+    while (offset < this.buffer.length) {
+      const parsed = this.parse(offset);
+      if (!parsed) break;
+
+      replies.push(parsed.reply);
+      offset = parsed.offset;
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+
+    return replies;
+  }
+
+  private parse(
+    offset: number,
+  ): { reply: RespReply; offset: number } | undefined {
+    const end = this.buffer.indexOf(CRLF, offset);
+    if (end === -1) return undefined;
+
+    const type = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString("utf8", offset + 1, end);
+    const next = end + CRLF.length;
+
+    switch (type) {
+      case "+":
+        return { reply: line, offset: next };
+      case "-":
+        return { reply: new RespError(line), offset: next };
+      case ":":
+        return { reply: Number(line), offset: next };
+      case "$": {
+        const length = Number(line);
+        if (length < 0) return { reply: null, offset: next };
+
+        if (this.buffer.length < next + length + CRLF.length) return undefined;
+
+        return {
+          reply: this.buffer.toString("utf8", next, next + length),
+          offset: next + length + CRLF.length,
+        };
+      }
+      case "*": {
+        const length = Number(line);
+        if (length < 0) return { reply: null, offset: next };
+
+        const items: RespReply[] = [];
+        let itemOffset = next;
+
+        for (let i = 0; i < length; i++) {
+          const item = this.parse(itemOffset);
+          if (!item) return undefined;
+
+          items.push(item.reply);
+          itemOffset = item.offset;
+        }
+
+        return { reply: items, offset: itemOffset };
+      }
+      default:
+        throw new Error(`Invalid RESP type: '${type}'`);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { RetryError } from "./errors";
+import { CircuitBreaker, backoffDelay, retry } from "./retry";
+
+describe("retry", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  describe("retry()", () => {
+    it("should resolve with the first successful attempt", async () => {
+      let calls = 0;
+
+      const fn = jest.fn(async () => {
+        calls += 1;
+        if (calls < 3) throw Error("Unexpected Error");
+        return "value";
+      });
+
+      const result = retry(fn, { attempts: 3, backoff: 100 });
+
+      await jest.advanceTimersByTimeAsync(300);
+
+      await expect(result).resolves.toStrictEqual("value");
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(fn).toHaveBeenLastCalledWith(3, expect.any(AbortSignal));
+    });
+
+    it("should reject with the attempts and the last error when every attempt fails", async () => {
+      const error = Error("Unexpected Error");
+      const fn = jest.fn(async () => {
+        throw error;
+      });
+
+      const result = retry(fn, { attempts: 2, backoff: 10 }).catch((e) => e);
+
+      await jest.advanceTimersByTimeAsync(10);
+
+      const rejection = await result;
+      expect(rejection).toBeInstanceOf(RetryError);
+      expect(rejection.attempts).toStrictEqual(2);
+      expect(rejection.cause).toBe(error);
+    });
+
+    it("should fail an attempt that exceeds the timeout", async () => {
+      const fn = jest.fn(() => new Promise<string>(() => {}));
+
+      const result = retry(fn, { timeout: 50 }).catch((e) => e);
+
+      await jest.advanceTimersByTimeAsync(50);
+
+      const rejection = await result;
+      expect(rejection.cause.message).toStrictEqual("Timed out after 50ms");
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("backoffDelay()", () => {
+    it("should grow exponentially up to maxBackoff", () => {
+      const policy = { backoff: 100, factor: 2, maxBackoff: 300 };
+
+      expect(backoffDelay(2, policy)).toStrictEqual(100);
+      expect(backoffDelay(3, policy)).toStrictEqual(200);
+      expect(backoffDelay(4, policy)).toStrictEqual(300);
+    });
+
+    it("should stay within the computed delay with jitter", () => {
+      const delay = backoffDelay(3, { backoff: 100, jitter: true });
+
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(200);
+    });
+  });
+
+  describe("CircuitBreaker", () => {
+    it("should open after the threshold and allow a single trial after the cooldown", () => {
+      const breaker = new CircuitBreaker({ threshold: 2, cooldown: 1000 });
+
+      breaker.recordFailure();
+      expect(breaker.allow()).toStrictEqual(true);
+
+      breaker.recordFailure();
+      expect(breaker.isOpen).toStrictEqual(true);
+      expect(breaker.allow()).toStrictEqual(false);
+
+      jest.advanceTimersByTime(1000);
+
+      expect(breaker.allow()).toStrictEqual(true);
+      expect(breaker.allow()).toStrictEqual(false);
+
+      breaker.recordSuccess();
+      expect(breaker.isOpen).toStrictEqual(false);
+      expect(breaker.allow()).toStrictEqual(true);
+    });
+
+    it("should open again when the trial call fails", () => {
+      const breaker = new CircuitBreaker({ threshold: 1, cooldown: 1000 });
+
+      breaker.recordFailure();
+      jest.advanceTimersByTime(1000);
+
+      expect(breaker.allow()).toStrictEqual(true);
+      breaker.recordFailure();
+
+      expect(breaker.allow()).toStrictEqual(false);
+    });
+
+    it("should throw an error when the threshold is not positive", () => {
+      expect(() => new CircuitBreaker({ threshold: 0, cooldown: 10 })).toThrow(
+        "Value `threshold` must be a positive number",
+      );
+    });
+  });
+});
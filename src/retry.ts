@@ -0,0 +1,221 @@
+import { CircuitOpenError, RetryError, TimeoutError } from "./errors";
+
+export type RetryPolicy = {
+  /** Maximum number of attempts, including the first one. Defaults to `1`. */
+  attempts?: number;
+  /** Delay in milliseconds before the second attempt. Defaults to `100`. */
+  backoff?: number;
+  /** Multiplier applied to the delay after every failed attempt. Defaults to `2`. */
+  factor?: number;
+  /** Upper bound of the delay in milliseconds. */
+  maxBackoff?: number;
+  /** Whether to randomize each delay between `0` and its computed value. */
+  jitter?: boolean;
+  /** Time in milliseconds after which a single attempt is considered failed and its signal aborted. */
+  timeout?: number;
+};
+
+export type CircuitBreakerOptions = {
+  /** Number of consecutive failed fetches that opens the circuit. */
+  threshold: number;
+  /** Time in milliseconds the circuit stays open before a trial call is allowed. */
+  cooldown: number;
+};
+
+/**
+ * Stops calls to a failing source function for a cooldown period once it failed `threshold` times in a row.
+ * After the cooldown a single trial call is let through, which closes the circuit on success or opens it again on failure.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInProgress = false;
+
+  constructor(private options: CircuitBreakerOptions) {
+    if (!(options.threshold > 0)) {
+      throw new Error("Value `threshold` must be a positive number");
+    }
+
+    if (options.cooldown < 0) {
+      throw new Error("Value `cooldown` cannot be negative");
+    }
+  }
+
+  /**
+   * Checks whether a call may go through, reserving the trial call when the cooldown has passed.
+   *
+   * @returns {boolean} `true` if the source function may be called.
+   */
+  allow(): boolean {
+    if (this.openedAt === undefined) return true;
+
+    if (this.trialInProgress) return false;
+
+    if (this.openedAt + this.options.cooldown > Date.now()) return false;
+
+    this.trialInProgress = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInProgress = false;
+  }
+
+  recordFailure(): void {
+    this.failures += 1;
+    this.trialInProgress = false;
+
+    if (
+      this.openedAt !== undefined ||
+      this.failures >= this.options.threshold
+    ) {
+      this.openedAt = Date.now();
+    }
+  }
+
+  get isOpen(): boolean {
+    return this.openedAt !== undefined;
+  }
+}
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Settles like the given promise, or rejects with the reason of the signal as soon as it is aborted.
+ */
+function abortable<T>(
+  promise: PromiseLike<T>,
+  signal: AbortSignal,
+): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    const release = () => signal.removeEventListener("abort", onAbort);
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(promise).then(resolve, reject).then(release, release);
+  });
+}
+
+/**
+ * Calls a function with a signal and settles like its result, or rejects with the reason of the signal as soon as it
+ * is aborted. It is up to the function to stop its work on the signal. A value returned synchronously can't hang,
+ * so it is not raced against the signal.
+ *
+ * @param {Function} fn - The function to call.
+ * @param {AbortSignal} signal - The signal passed to the function.
+ * @returns {Promise<T>} The result of the function.
+ */
+export function callAbortable<T>(
+  fn: (signal: AbortSignal) => PromiseLike<T> | T,
+  signal: AbortSignal,
+): Promise<T> {
+  let result: PromiseLike<T> | T;
+
+  try {
+    result = fn(signal);
+  } catch (e) {
+    return Promise.reject(e);
+  }
+
+  return typeof (result as PromiseLike<T>)?.then === "function"
+    ? abortable(result as PromiseLike<T>, signal)
+    : Promise.resolve(result as T);
+}
+
+/**
+ * Runs a single attempt with its own signal, aborted when `signal` is or when the attempt exceeds `timeout`.
+ */
+function attemptOnce<T>(
+  fn: (attempt: number, signal: AbortSignal) => Promise<T> | T,
+  attempt: number,
+  timeout?: number,
+  signal?: AbortSignal,
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const timer =
+    timeout !== undefined
+      ? setTimeout(() => controller.abort(new TimeoutError(timeout)), timeout)
+      : undefined;
+
+  const release = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  };
+
+  const result = callAbortable(
+    (attemptSignal) => fn(attempt, attemptSignal),
+    controller.signal,
+  );
+
+  result.then(release, release);
+
+  return result;
+}
+
+/**
+ * Computes the delay before the given attempt using exponential backoff.
+ *
+ * @param {number} attempt - The attempt that is about to run, starting from `2`.
+ * @param {RetryPolicy} policy - The retry policy.
+ * @returns {number} The delay in milliseconds.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(
+    (policy.backoff ?? 100) * Math.pow(policy.factor ?? 2, attempt - 2),
+    policy.maxBackoff ?? Infinity,
+  );
+
+  return policy.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Runs a function until it succeeds or the retry policy runs out of attempts.
+ *
+ * @param {Function} fn - The function to run. Receives the attempt number, starting from `1`, and a signal that is aborted
+ * when the attempt times out or `signal` is aborted.
+ * @param {RetryPolicy} [policy] - The retry policy. Without one, the function runs once.
+ * @param {AbortSignal} [signal] - Stops the current attempt and any further ones.
+ *
+ * @returns {Promise<T>} The result of the first successful attempt.
+ *
+ * @throws {RetryError} With the number of attempts and the error of the last attempt, or the reason of the aborted `signal`.
+ */
+export async function retry<T>(
+  fn: (attempt: number, signal: AbortSignal) => Promise<T> | T,
+  policy: RetryPolicy = {},
+  signal?: AbortSignal,
+): Promise<T> {
+  const attempts = Math.max(1, policy.attempts ?? 1);
+
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    if (attempt > 1) {
+      const delay = wait(backoffDelay(attempt, policy));
+
+      await (signal ? abortable(delay, signal).catch(() => {}) : delay);
+    }
+
+    if (signal?.aborted) {
+      throw new RetryError(attempt - 1, signal.reason);
+    }
+
+    try {
+      // The first attempt starts synchronously, like a direct call to `fn` would
+      return await attemptOnce(fn, attempt, policy.timeout, signal);
+    } catch (e) {
+      lastError = e;
+    }
+  }
+
+  throw new RetryError(attempts, lastError);
+}
@@ -1,4 +1,12 @@
-import { EVENT, EventParam, RunCache } from "./run-cache";
+import {
+  EVENT,
+  EventParam,
+  RunCache,
+  Snapshot,
+  SourceFnError,
+  StorageAdapter,
+  createCache,
+} from "./run-cache";
 import { v4 as uuid } from "uuid";
 
 describe("RunCache", () => {
@@ -107,6 +115,51 @@ describe("RunCache", () => {
       expect(sourceFn).toHaveBeenCalledTimes(3);
     });
 
+    it("should store non-string values as they are", async () => {
+      const objectKey = uuid();
+      const numberKey = uuid();
+      const bufferKey = uuid();
+
+      const object = { id: uuid(), tags: ["a", "b"] };
+      const buffer = Buffer.from(uuid());
+
+      await RunCache.set({ key: objectKey, value: object });
+      await RunCache.set({ key: numberKey, value: 0 });
+      await RunCache.set({ key: bufferKey, sourceFn: () => buffer });
+
+      await expect(RunCache.get(objectKey)).resolves.toStrictEqual(object);
+      await expect(RunCache.get(numberKey)).resolves.toStrictEqual(0);
+      await expect(RunCache.get(bufferKey)).resolves.toBe(buffer);
+    });
+
+    it("should not store an 'undefined' string when the source function returns nothing", async () => {
+      const key = uuid();
+
+      await RunCache.set({ key, sourceFn: () => undefined });
+
+      await expect(RunCache.has(key)).resolves.toStrictEqual(true);
+      await expect(RunCache.get(key)).resolves.toBeUndefined();
+    });
+
+    it("should share a single source function call between concurrent sets and gets", async () => {
+      const key = uuid();
+      const value = uuid();
+
+      const sourceFn = jest.fn(async () => value);
+
+      const [firstSet, secondSet, result] = await Promise.all([
+        RunCache.set({ key, sourceFn }),
+        RunCache.set({ key, sourceFn }),
+        RunCache.get(key),
+      ]);
+
+      expect(firstSet).toStrictEqual(true);
+      expect(secondSet).toStrictEqual(true);
+      expect(result).toStrictEqual(value);
+
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+    });
+
     it("should return true if the cache value set successfully", async () => {
       await expect(
         RunCache.set({ key: uuid(), value: uuid() }),
@@ -180,6 +233,35 @@ describe("RunCache", () => {
       expect(sourceFn).toHaveBeenCalledTimes(2);
     });
 
+    it("should wait for an in-flight refetch of an expired key", async () => {
+      const key = uuid();
+      const freshValue = uuid();
+
+      const sourceFn = jest.fn(async () => freshValue);
+
+      await RunCache.set({
+        key,
+        value: uuid(),
+        sourceFn,
+        ttl: 100,
+        autoRefetch: true,
+      });
+
+      jest.setSystemTime(Date.now() + 101);
+
+      const [refetched, firstGet, secondGet] = await Promise.all([
+        RunCache.refetch(key),
+        RunCache.get(key),
+        RunCache.get(key),
+      ]);
+
+      expect(refetched).toStrictEqual(true);
+      expect(firstGet).toStrictEqual(freshValue);
+      expect(secondGet).toStrictEqual(freshValue);
+
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+    });
+
     it("should return the value successfully", async () => {
       const key = uuid();
       const value = uuid();
@@ -187,6 +269,76 @@ describe("RunCache", () => {
       await RunCache.set({ key, value });
       await expect(RunCache.get(key)).resolves.toStrictEqual(value);
     });
+
+    it("should return the stale value and refetch in the background with staleWhileRevalidate", async () => {
+      const key = uuid();
+      const staleValue = uuid();
+      const freshValue = uuid();
+
+      let resolveSourceFn: (value: string) => void = () => {};
+
+      const sourceFn = jest.fn(
+        () => new Promise<string>((resolve) => (resolveSourceFn = resolve)),
+      );
+
+      const cache = createCache();
+
+      await cache.set({
+        key,
+        value: staleValue,
+        sourceFn,
+        ttl: 100,
+        autoRefetch: true,
+        staleWhileRevalidate: true,
+      });
+
+      jest.setSystemTime(Date.now() + 101);
+
+      await expect(cache.get(key)).resolves.toStrictEqual(staleValue);
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+
+      resolveSourceFn(freshValue);
+      // Flush microtasks, the fetch settles through the race with its abort signal first
+      await Promise.resolve();
+      await Promise.resolve();
+
+      await expect(cache.get(key)).resolves.toStrictEqual(freshValue);
+    });
+
+    it("should block on the refetch once the staleTtl window has passed", async () => {
+      const key = uuid();
+      const freshValue = uuid();
+
+      const sourceFn = jest.fn(async () => freshValue);
+
+      await RunCache.set({
+        key,
+        value: uuid(),
+        sourceFn,
+        ttl: 100,
+        autoRefetch: true,
+        staleWhileRevalidate: true,
+        staleTtl: 50,
+      });
+
+      jest.setSystemTime(Date.now() + 151);
+
+      await expect(RunCache.get(key)).resolves.toStrictEqual(freshValue);
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw an error when staleWhileRevalidate is set without autoRefetch", async () => {
+      await expect(
+        RunCache.set({
+          key: uuid(),
+          value: uuid(),
+          ttl: 100,
+          staleWhileRevalidate: true,
+        }),
+      ).rejects.toThrow(
+        "`staleWhileRevalidate` is not allowed without `autoRefetch`",
+      );
+    });
   });
 
   describe("delete()", () => {
@@ -219,112 +371,633 @@ describe("RunCache", () => {
     });
   });
 
+  describe("dispose()", () => {
+    it("should clear entries, timers and listeners", async () => {
+      const cache = createCache();
+      const funcToBeExecutedOnExpiry = jest.fn();
+
+      cache.onExpiry(funcToBeExecutedOnExpiry);
+
+      await cache.set({ key: uuid(), value: uuid(), ttl: 100 });
+      await cache.set({ key: uuid(), value: uuid(), ttl: 200 });
+
+      expect(jest.getTimerCount()).toStrictEqual(1);
+
+      cache.dispose();
+
+      expect(jest.getTimerCount()).toStrictEqual(0);
+
+      await cache.set({ key: uuid(), value: uuid(), ttl: 100 });
+
+      jest.advanceTimersByTime(101);
+
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(0);
+    });
+  });
+
   describe("has()", () => {
     it("should return true if the key exists", async () => {
       const key = uuid();
       const value = uuid();
 
-      await RunCache.set({ key, value });
-      await expect(RunCache.has(key)).resolves.toStrictEqual(true);
-    });
+      await RunCache.set({ key, value });
+      await expect(RunCache.has(key)).resolves.toStrictEqual(true);
+    });
+
+    it("should return false if the key does not exist", async () => {
+      await expect(RunCache.has("NonExistentKey")).resolves.toStrictEqual(
+        false,
+      );
+    });
+
+    it("should return false after ttl expiry", async () => {
+      const key = uuid();
+      const value = uuid();
+
+      await RunCache.set({ key, value, ttl: 100 });
+      await expect(RunCache.has(key)).resolves.toStrictEqual(true);
+
+      jest.advanceTimersByTime(101);
+
+      await expect(RunCache.has(key)).resolves.toStrictEqual(false);
+    });
+  });
+
+  describe("mget()", () => {
+    it("should return hits and misses", async () => {
+      const key = uuid();
+      const value = uuid();
+      const missingKey = uuid();
+
+      await RunCache.set({ key, value });
+
+      const { hits, misses } = await RunCache.mget([key, missingKey, key]);
+
+      expect(hits).toStrictEqual(new Map([[key, value]]));
+      expect(misses).toStrictEqual([missingKey]);
+    });
+
+    it("should load all missing keys in a single call and cache them", async () => {
+      const key = uuid();
+      const loadedKey = uuid();
+      const unknownKey = uuid();
+
+      await RunCache.set({ key, value: "cached" });
+
+      const loader = jest.fn((keys: string[]) =>
+        keys.map((key) => (key === loadedKey ? "loaded" : undefined)),
+      );
+
+      const { hits, misses } = await RunCache.mget(
+        [key, loadedKey, unknownKey],
+        { loader, ttl: 100 },
+      );
+
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(loader).toHaveBeenCalledWith([loadedKey, unknownKey]);
+      expect(hits).toStrictEqual(
+        new Map([
+          [key, "cached"],
+          [loadedKey, "loaded"],
+        ]),
+      );
+      expect(misses).toStrictEqual([unknownKey]);
+
+      await expect(RunCache.get(loadedKey)).resolves.toStrictEqual("loaded");
+      await expect(RunCache.refetch(loadedKey)).resolves.toStrictEqual(true);
+      expect(loader).toHaveBeenLastCalledWith([loadedKey]);
+
+      jest.advanceTimersByTime(101);
+      await expect(RunCache.get(loadedKey)).resolves.toBeUndefined();
+    });
+
+    it("should throw an error when the loader returns a value count that doesn't match", async () => {
+      await expect(
+        RunCache.mget([uuid(), uuid()], { loader: () => [uuid()] }),
+      ).rejects.toThrow("Batch loader must return 2 values, one for each key");
+    });
+  });
+
+  describe("mset()", () => {
+    it("should set every entry and report failures by key", async () => {
+      const key = uuid();
+      const failingKey = uuid();
+      const error = Error("Unexpected Error");
+
+      const { set, failed } = await RunCache.mset([
+        { key, sourceFn: () => "value" },
+        {
+          key: failingKey,
+          sourceFn: () => {
+            throw error;
+          },
+        },
+      ]);
+
+      expect(set).toStrictEqual(1);
+      expect(failed.get(failingKey)).toBeInstanceOf(SourceFnError);
+      await expect(RunCache.get(key)).resolves.toStrictEqual("value");
+      await expect(RunCache.has(failingKey)).resolves.toStrictEqual(false);
+    });
+
+    it("should run at most `concurrency` source functions at once", async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const sourceFn = async () => {
+        running += 1;
+        maxRunning = Math.max(maxRunning, running);
+
+        await Promise.resolve();
+
+        running -= 1;
+        return uuid();
+      };
+
+      const { set } = await RunCache.mset(
+        Array.from({ length: 5 }, () => ({ key: uuid(), sourceFn })),
+        { concurrency: 2 },
+      );
+
+      expect(set).toStrictEqual(5);
+      expect(maxRunning).toStrictEqual(2);
+    });
+
+    it("should throw an error when the concurrency is not positive", async () => {
+      await expect(RunCache.mset([], { concurrency: 0 })).rejects.toThrow(
+        "Value `concurrency` must be a positive number",
+      );
+    });
+  });
+
+  describe("mdelete() and mhas()", () => {
+    it("should delete and check several keys", async () => {
+      const key = uuid();
+      const missingKey = uuid();
+
+      await RunCache.set({ key, value: uuid() });
+
+      await expect(RunCache.mhas([key, missingKey])).resolves.toStrictEqual(
+        new Map([
+          [key, true],
+          [missingKey, false],
+        ]),
+      );
+      expect(RunCache.mdelete([key, missingKey])).toStrictEqual({
+        deleted: 1,
+        missing: 1,
+      });
+      await expect(RunCache.has(key)).resolves.toStrictEqual(false);
+    });
+  });
+
+  describe("refetch()", () => {
+    it("should resolve to false if refetch is called on a key having no source function", async () => {
+      const key = uuid();
+
+      await RunCache.set({ key, value: uuid() });
+      await expect(RunCache.refetch(key)).resolves.toStrictEqual(false);
+    });
+
+    it("should throw an error when the source function throws an error", async () => {
+      const key = uuid();
+      let shouldThrowError = false;
+
+      const sourceFn = jest.fn(async () => {
+        if (shouldThrowError) {
+          throw Error("Unexpected Error");
+        } else {
+          return "SomeValue";
+        }
+      });
+      await RunCache.set({ key, sourceFn });
+
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+
+      // Make source function to fail
+      shouldThrowError = true;
+
+      expect(RunCache.refetch(key)).rejects.toThrow(
+        `Source function failed for key: '${key}'`,
+      );
+
+      expect(sourceFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry the source function with backoff before failing", async () => {
+      const key = uuid();
+      const freshValue = uuid();
+      let failures = 2;
+
+      const sourceFn = jest.fn(async () => {
+        if (failures-- > 0) throw Error("Unexpected Error");
+        return freshValue;
+      });
+
+      await RunCache.set({
+        key,
+        value: uuid(),
+        sourceFn,
+        retry: { attempts: 3, backoff: 100 },
+      });
+
+      const refetch = RunCache.refetch(key);
+
+      await jest.advanceTimersByTimeAsync(300);
+
+      await expect(refetch).resolves.toStrictEqual(true);
+      await expect(RunCache.get(key)).resolves.toStrictEqual(freshValue);
+      expect(sourceFn).toHaveBeenCalledTimes(3);
+    });
+
+    it("should include the attempts and the original error in the failure", async () => {
+      const key = uuid();
+      const error = Error("Unexpected Error");
+
+      const sourceFn = jest.fn(async () => {
+        throw error;
+      });
+
+      const funcToBeExecutedOnRefetchFailure = jest.fn();
+      RunCache.onKeyRefetchFailure(key, funcToBeExecutedOnRefetchFailure);
+
+      await RunCache.set({
+        key,
+        value: uuid(),
+        sourceFn,
+        retry: { attempts: 2, backoff: 10 },
+      });
+
+      const refetch = RunCache.refetch(key).catch((e) => e);
+
+      await jest.advanceTimersByTimeAsync(10);
+
+      const rejection = await refetch;
+      expect(rejection).toBeInstanceOf(SourceFnError);
+      expect(rejection.message).toStrictEqual(
+        `Source function failed for key: '${key}'`,
+      );
+      expect(rejection.attempts).toStrictEqual(2);
+      expect(rejection.cause).toBe(error);
+
+      expect(funcToBeExecutedOnRefetchFailure).toHaveBeenCalledWith(
+        expect.objectContaining({ key, attempts: 2, error }),
+      );
+    });
+
+    it("should stop calling a failing source function while the circuit is open", async () => {
+      const key = uuid();
+
+      const sourceFn = jest.fn(async () => {
+        throw Error("Unexpected Error");
+      });
+
+      await RunCache.set({
+        key,
+        value: uuid(),
+        sourceFn,
+        circuitBreaker: { threshold: 2, cooldown: 1000 },
+      });
+
+      await expect(RunCache.refetch(key)).rejects.toThrow(SourceFnError);
+      await expect(RunCache.refetch(key)).rejects.toThrow(SourceFnError);
+      await expect(RunCache.refetch(key)).rejects.toThrow(SourceFnError);
+
+      expect(sourceFn).toHaveBeenCalledTimes(2);
+
+      jest.advanceTimersByTime(1000);
+
+      await expect(RunCache.refetch(key)).rejects.toThrow(SourceFnError);
+      expect(sourceFn).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not refetch if the key does not exist", async () => {
+      await expect(RunCache.refetch("NonExistentKey")).resolves.toStrictEqual(
+        false,
+      );
+    });
+
+    it("should share a single source function call between concurrent refetches", async () => {
+      const key = uuid();
+      const freshValue = uuid();
+
+      const sourceFn = jest.fn(async () => freshValue);
+
+      await RunCache.set({ key, value: uuid(), sourceFn });
+
+      const [firstRefetch, secondRefetch, thirdRefetch] = await Promise.all([
+        RunCache.refetch(key),
+        RunCache.refetch(key),
+        RunCache.refetch(key),
+      ]);
+
+      expect(firstRefetch).toStrictEqual(true);
+      expect(secondRefetch).toStrictEqual(true);
+      expect(thirdRefetch).toStrictEqual(true);
+
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+
+      await expect(RunCache.get(key)).resolves.toStrictEqual(freshValue);
+    });
+
+    it("should reject all concurrent refetches when the shared source function call fails", async () => {
+      const key = uuid();
+
+      const sourceFn = jest.fn(async () => {
+        throw Error("Unexpected Error");
+      });
+
+      await RunCache.set({ key, value: uuid(), sourceFn });
+
+      const results = await Promise.allSettled([
+        RunCache.refetch(key),
+        RunCache.refetch(key),
+      ]);
+
+      expect(results.map(({ status }) => status)).toStrictEqual([
+        "rejected",
+        "rejected",
+      ]);
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not restore a key that was deleted while refetching", async () => {
+      const key = uuid();
+
+      const sourceFn = jest.fn(async () => uuid());
+
+      await RunCache.set({ key, value: uuid(), sourceFn });
+
+      const refetch = RunCache.refetch(key);
+      RunCache.delete(key);
+
+      await expect(refetch).resolves.toStrictEqual(false);
+      await expect(RunCache.has(key)).resolves.toStrictEqual(false);
+    });
+
+    it("should refetch and update the value from the source function", async () => {
+      const key = uuid();
+      let dynamicValue = uuid();
+      const sourceFn = jest.fn(() => dynamicValue);
+
+      await RunCache.set({ key, sourceFn });
+      await expect(RunCache.get(key)).resolves.toStrictEqual(dynamicValue);
+
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+
+      dynamicValue = uuid();
+
+      await RunCache.refetch(key);
+
+      expect(sourceFn).toHaveBeenCalledTimes(2);
+
+      await expect(RunCache.get(key)).resolves.toStrictEqual(dynamicValue);
+    });
+  });
+
+  describe("getOrSet()", () => {
+    it("should return the cached value without calling the source function", async () => {
+      const key = uuid();
+      const value = uuid();
+
+      const sourceFn = jest.fn(async () => uuid());
+
+      await RunCache.set({ key, value });
+
+      await expect(RunCache.getOrSet({ key, sourceFn })).resolves.toStrictEqual(
+        value,
+      );
+      expect(sourceFn).toHaveBeenCalledTimes(0);
+    });
+
+    it("should call the source function and cache the result when the key is missing", async () => {
+      const key = uuid();
+      const value = uuid();
+
+      const sourceFn = jest.fn(async () => value);
+
+      await expect(
+        RunCache.getOrSet({ key, sourceFn, ttl: 100 }),
+      ).resolves.toStrictEqual(value);
+      await expect(RunCache.get(key)).resolves.toStrictEqual(value);
+
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fetch again after the cached value has expired", async () => {
+      const key = uuid();
+      const value = uuid();
+
+      const sourceFn = jest.fn(async () => value);
+
+      await RunCache.set({ key, value: uuid(), ttl: 100 });
+
+      jest.setSystemTime(Date.now() + 101);
+
+      await expect(RunCache.getOrSet({ key, sourceFn })).resolves.toStrictEqual(
+        value,
+      );
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should call the source function once for concurrent calls", async () => {
+      const key = uuid();
+      const value = uuid();
+
+      const sourceFn = jest.fn(async () => value);
+
+      const results = await Promise.all([
+        RunCache.getOrSet({ key, sourceFn }),
+        RunCache.getOrSet({ key, sourceFn }),
+        RunCache.getOrSet({ key, sourceFn }),
+      ]);
+
+      expect(results).toStrictEqual([value, value, value]);
+      expect(sourceFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("wrap()", () => {
+    it("should memoize results by the key built from the arguments", async () => {
+      const fn = jest.fn(async (a: number, b: number) => a + b);
+
+      const add = RunCache.wrap(fn, {
+        keyFn: (a, b) => `add:${a}:${b}`,
+        ttl: 100,
+      });
+
+      await expect(add(1, 2)).resolves.toStrictEqual(3);
+      await expect(add(1, 2)).resolves.toStrictEqual(3);
+      await expect(add(2, 2)).resolves.toStrictEqual(4);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      await expect(RunCache.get("add:1:2")).resolves.toStrictEqual(3);
+    });
+  });
+
+  describe("invalidateByTag()", () => {
+    it("should delete every entry with the tag and emit invalidate events", async () => {
+      const [key1, key2, key3] = [uuid(), uuid(), uuid()];
+
+      const funcToBeExecutedOnInvalidate = jest.fn();
+      RunCache.onInvalidate(funcToBeExecutedOnInvalidate);
+
+      await RunCache.set({ key: key1, value: uuid(), tags: ["user:42"] });
+      await RunCache.set({ key: key2, value: uuid(), tags: ["user:42", "a"] });
+      await RunCache.set({ key: key3, value: uuid(), tags: ["user:1"] });
+
+      expect(RunCache.invalidateByTag("user:42")).toStrictEqual(2);
+
+      await expect(RunCache.has(key1)).resolves.toStrictEqual(false);
+      await expect(RunCache.has(key2)).resolves.toStrictEqual(false);
+      await expect(RunCache.has(key3)).resolves.toStrictEqual(true);
 
-    it("should return false if the key does not exist", async () => {
-      await expect(RunCache.has("NonExistentKey")).resolves.toStrictEqual(
-        false,
+      expect(funcToBeExecutedOnInvalidate).toHaveBeenCalledTimes(2);
+      expect(funcToBeExecutedOnInvalidate).toHaveBeenCalledWith(
+        expect.objectContaining({ key: key1, tag: "user:42" }),
       );
+
+      expect(RunCache.invalidateByTag("a")).toStrictEqual(0);
     });
 
-    it("should return false after ttl expiry", async () => {
+    it("should clear the ttl timers of invalidated entries", async () => {
       const key = uuid();
-      const value = uuid();
 
-      await RunCache.set({ key, value, ttl: 100 });
-      await expect(RunCache.has(key)).resolves.toStrictEqual(true);
+      const funcToBeExecutedOnExpiry = jest.fn();
+      RunCache.onExpiry(funcToBeExecutedOnExpiry);
+
+      await RunCache.set({ key, value: uuid(), ttl: 100, tags: ["tag"] });
+      RunCache.invalidateByTag("tag");
 
       jest.advanceTimersByTime(101);
 
-      await expect(RunCache.has(key)).resolves.toStrictEqual(false);
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(0);
     });
-  });
 
-  describe("refetch()", () => {
-    it("should resolve to false if refetch is called on a key having no source function", async () => {
+    it("should forget old tags when an entry is set again", async () => {
       const key = uuid();
 
-      await RunCache.set({ key, value: uuid() });
-      await expect(RunCache.refetch(key)).resolves.toStrictEqual(false);
-    });
+      await RunCache.set({ key, value: uuid(), tags: ["old"] });
+      await RunCache.set({ key, value: uuid(), tags: ["new"] });
 
-    it("should throw an error when the source function throws an error", async () => {
-      const key = uuid();
-      let shouldThrowError = false;
+      expect(RunCache.invalidateByTag("old")).toStrictEqual(0);
+      expect(RunCache.invalidateByTag("new")).toStrictEqual(1);
+    });
+  });
 
-      const sourceFn = jest.fn(async () => {
-        if (shouldThrowError) {
-          throw Error("Unexpected Error");
-        } else {
-          return "SomeValue";
-        }
-      });
-      await RunCache.set({ key, sourceFn });
+  describe("deleteByPattern()", () => {
+    it("should delete entries matching a glob", async () => {
+      await RunCache.set({ key: "user:42:profile", value: uuid() });
+      await RunCache.set({ key: "user:42:settings", value: uuid() });
+      await RunCache.set({ key: "user:420:profile", value: uuid() });
 
-      expect(sourceFn).toHaveBeenCalledTimes(1);
+      const funcToBeExecutedOnInvalidate = jest.fn();
+      RunCache.onKeyInvalidate("user:42:profile", funcToBeExecutedOnInvalidate);
 
-      // Make source function to fail
-      shouldThrowError = true;
+      expect(RunCache.deleteByPattern("user:42:*")).toStrictEqual(2);
 
-      expect(RunCache.refetch(key)).rejects.toThrow(
-        `Source function failed for key: '${key}'`,
+      await expect(RunCache.has("user:420:profile")).resolves.toStrictEqual(
+        true,
       );
+      expect(funcToBeExecutedOnInvalidate).toHaveBeenCalledWith(
+        expect.objectContaining({ pattern: "user:42:*" }),
+      );
+    });
 
-      expect(sourceFn).toHaveBeenCalledTimes(2);
+    it("should delete entries matching a regular expression", async () => {
+      await RunCache.set({ key: "session:1", value: uuid() });
+      await RunCache.set({ key: "session:2", value: uuid() });
+      await RunCache.set({ key: "token:1", value: uuid() });
+
+      expect(RunCache.deleteByPattern(/^session:/)).toStrictEqual(2);
+      await expect(RunCache.has("token:1")).resolves.toStrictEqual(true);
     });
+  });
 
-    it("should not refetch if the key does not exist", async () => {
-      await expect(RunCache.refetch("NonExistentKey")).resolves.toStrictEqual(
-        false,
-      );
+  describe("refetchByTag()", () => {
+    it("should refetch every entry with the tag that has a source function", async () => {
+      const key1 = uuid();
+      const key2 = uuid();
+      const freshValue = uuid();
+
+      const sourceFn = jest.fn(async () => freshValue);
+      const failingSourceFn = jest.fn(async () => {
+        throw Error("Unexpected Error");
+      });
+
+      await RunCache.set({ key: key1, value: uuid(), sourceFn, tags: ["t"] });
+      await RunCache.set({
+        key: key2,
+        value: uuid(),
+        sourceFn: failingSourceFn,
+        tags: ["t"],
+      });
+      await RunCache.set({ key: uuid(), value: uuid(), tags: ["t"] });
+
+      await expect(RunCache.refetchByTag("t")).resolves.toStrictEqual(1);
+      await expect(RunCache.get(key1)).resolves.toStrictEqual(freshValue);
+      expect(failingSourceFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("stats()", () => {
+    beforeEach(() => {
+      RunCache.resetStats();
     });
 
-    it("should not call sourceFn more than once at a time", async () => {
+    it("should count hits, misses, expiries and refetches", async () => {
       const key = uuid();
 
-      const sourceFn = jest.fn(async () => {
-        return uuid();
+      await RunCache.set({ key, value: uuid(), ttl: 100 });
+      await RunCache.set({
+        key: "user:1",
+        value: uuid(),
+        sourceFn: () => uuid(),
       });
 
-      await RunCache.set({ key, value: uuid(), sourceFn });
+      await RunCache.get(key);
+      await RunCache.get(uuid());
+      await RunCache.refetch("user:1");
 
-      const [firstRefetch, secondRefetch, thirdRefetch] = await Promise.all([
-        RunCache.refetch(key),
-        RunCache.refetch(key),
-        RunCache.refetch(key),
-      ]);
+      jest.setSystemTime(Date.now() + 101);
+      await RunCache.get(key);
 
-      expect(firstRefetch).toStrictEqual(true);
-      expect(secondRefetch).toStrictEqual(false);
-      expect(thirdRefetch).toStrictEqual(false);
+      const stats = RunCache.stats();
 
-      expect(sourceFn).toHaveBeenCalledTimes(1);
+      expect(stats.hits).toStrictEqual(1);
+      expect(stats.misses).toStrictEqual(2);
+      expect(stats.expiries).toStrictEqual(1);
+      expect(stats.refetches).toStrictEqual(1);
+      expect(stats.refetchFailures).toStrictEqual(0);
+      expect(stats.latency.count).toStrictEqual(1);
+      expect(stats.entries).toStrictEqual(1);
+      expect(stats.approximateBytes).toBeGreaterThan(0);
+
+      expect(RunCache.stats({ key }).hits).toStrictEqual(1);
+      expect(RunCache.stats({ prefix: "user:" }).refetches).toStrictEqual(1);
+      expect(RunCache.stats({ prefix: "user:" }).entries).toStrictEqual(1);
     });
 
-    it("should refetch and update the value from the source function", async () => {
-      const key = uuid();
-      let dynamicValue = uuid();
-      const sourceFn = jest.fn(() => dynamicValue);
+    it("should count evictions and reset", async () => {
+      const cache = createCache({ maxEntries: 1 });
 
-      await RunCache.set({ key, sourceFn });
-      await expect(RunCache.get(key)).resolves.toStrictEqual(dynamicValue);
+      await cache.set({ key: uuid(), value: uuid() });
+      await cache.set({ key: uuid(), value: uuid() });
 
-      expect(sourceFn).toHaveBeenCalledTimes(1);
+      expect(cache.stats().evictions).toStrictEqual(1);
 
-      dynamicValue = uuid();
+      cache.resetStats();
 
-      await RunCache.refetch(key);
+      expect(cache.stats().evictions).toStrictEqual(0);
+      expect(cache.stats().entries).toStrictEqual(1);
+    });
 
-      expect(sourceFn).toHaveBeenCalledTimes(2);
+    it("should export stats in the Prometheus text format", async () => {
+      await RunCache.set({ key: uuid(), value: uuid() });
 
-      await expect(RunCache.get(key)).resolves.toStrictEqual(dynamicValue);
+      expect(
+        RunCache.prometheusMetrics({ labels: { cache: "default" } }),
+      ).toContain('run_cache_entries{cache="default"} 1');
     });
   });
 
@@ -357,6 +1030,112 @@ describe("RunCache", () => {
     });
   });
 
+  describe("activeExpiry", () => {
+    it("should remove expired entries on time and emit expire once", async () => {
+      const cache = createCache({ activeExpiry: true });
+      const key = uuid();
+      const value = uuid();
+
+      const funcToBeExecutedOnExpiry = jest.fn();
+      cache.onKeyExpiry(key, funcToBeExecutedOnExpiry);
+
+      await cache.set({ key, value, ttl: 100 });
+
+      jest.advanceTimersByTime(100);
+      await expect(cache.has(key)).resolves.toStrictEqual(true);
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(0);
+
+      jest.advanceTimersByTime(1);
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(1);
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledWith(
+        expect.objectContaining({ key, value }),
+      );
+      expect(cache.stats().entries).toStrictEqual(0);
+
+      jest.advanceTimersByTime(1000);
+      await expect(cache.has(key)).resolves.toStrictEqual(false);
+      await expect(cache.get(key)).resolves.toBeUndefined();
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep expiring other keys when an expiry listener throws", async () => {
+      const cache = createCache({ activeExpiry: true });
+      const rethrown = jest
+        .spyOn(global, "queueMicrotask")
+        .mockImplementation(() => {});
+
+      cache.onKeyExpiry("bad", () => {
+        throw new Error("Unexpected Error");
+      });
+
+      await cache.set({ key: "bad", value: uuid(), ttl: 100 });
+      await cache.set({ key: "good", value: uuid(), ttl: 100 });
+      await cache.set({ key: "later", value: uuid(), ttl: 300 });
+
+      jest.advanceTimersByTime(301);
+
+      expect(cache.inspect("good")).toBeUndefined();
+      expect(cache.inspect("later")).toBeUndefined();
+      expect(rethrown).toHaveBeenCalledTimes(1);
+
+      rethrown.mockRestore();
+    });
+
+    it("should not emit expire again when a read notices the expiry first", async () => {
+      const cache = createCache({ activeExpiry: true });
+      const key = uuid();
+
+      const funcToBeExecutedOnExpiry = jest.fn();
+      cache.onKeyExpiry(key, funcToBeExecutedOnExpiry);
+
+      await cache.set({ key, value: uuid(), ttl: 100 });
+
+      jest.setSystemTime(Date.now() + 101);
+      await expect(cache.has(key)).resolves.toStrictEqual(false);
+      await expect(cache.get(key)).resolves.toBeUndefined();
+
+      jest.advanceTimersByTime(101);
+
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(1);
+    });
+
+    it("should emit expire with the refetched value, counting the ttl from the refetch", async () => {
+      const cache = createCache({ activeExpiry: true });
+      const key = uuid();
+      let value = uuid();
+
+      const funcToBeExecutedOnExpiry = jest.fn();
+      cache.onKeyExpiry(key, funcToBeExecutedOnExpiry);
+
+      await cache.set({
+        key,
+        sourceFn: () => value,
+        ttl: 100,
+        autoRefetch: true,
+      });
+
+      jest.advanceTimersByTime(50);
+
+      value = uuid();
+      await cache.refetch(key);
+
+      jest.advanceTimersByTime(51);
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(0);
+
+      const refetchedValue = value;
+      value = uuid();
+
+      jest.advanceTimersByTime(50);
+      await Promise.resolve();
+
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(1);
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledWith(
+        expect.objectContaining({ value: refetchedValue }),
+      );
+      await expect(cache.get(key)).resolves.toStrictEqual(value);
+    });
+  });
+
   describe("onRefetch() and onKeyRefetch()", () => {
     it("should trigger on refetch", async () => {
       const key = uuid();
@@ -538,4 +1317,264 @@ describe("RunCache", () => {
       expect(funcToBeExecutedOnRefetch).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe("instances", () => {
+    it("should keep keys isolated between instances", async () => {
+      const key = uuid();
+      const value = uuid();
+
+      const first = new RunCache();
+      const second = createCache();
+
+      await first.set({ key, value });
+
+      await expect(first.get(key)).resolves.toStrictEqual(value);
+      await expect(second.get(key)).resolves.toBeUndefined();
+      await expect(RunCache.get(key)).resolves.toBeUndefined();
+    });
+
+    it("should keep listeners isolated between instances", async () => {
+      const key = uuid();
+
+      const instance = createCache();
+
+      const funcToBeExecutedOnExpiry = jest.fn();
+      const instanceFuncToBeExecutedOnExpiry = jest.fn();
+
+      RunCache.onExpiry(funcToBeExecutedOnExpiry);
+      instance.onExpiry(instanceFuncToBeExecutedOnExpiry);
+
+      await instance.set({ key, value: uuid(), ttl: 100 });
+
+      jest.advanceTimersByTime(101);
+      await Promise.resolve(); // Flush microtasks
+
+      expect(instanceFuncToBeExecutedOnExpiry).toHaveBeenCalledTimes(1);
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(0);
+
+      instance.flush();
+    });
+
+    it("should not be affected by flushing the default instance", async () => {
+      const key = uuid();
+      const value = uuid();
+
+      const instance = createCache();
+
+      await instance.set({ key, value });
+      RunCache.flush();
+
+      await expect(instance.get(key)).resolves.toStrictEqual(value);
+    });
+  });
+
+  describe("eviction", () => {
+    it("should throw an error when the limits are not positive", () => {
+      expect(() => createCache({ maxEntries: 0 })).toThrow(
+        "Value `maxEntries` must be a positive number",
+      );
+      expect(() => createCache({ maxSizeBytes: -1 })).toThrow(
+        "Value `maxSizeBytes` must be a positive number",
+      );
+    });
+
+    it("should evict the least recently used entry when maxEntries is exceeded", async () => {
+      const cache = createCache({ maxEntries: 2 });
+
+      await cache.set({ key: "a", value: uuid() });
+      await cache.set({ key: "b", value: uuid() });
+      await cache.get("a");
+      await cache.set({ key: "c", value: uuid() });
+
+      await expect(cache.has("a")).resolves.toStrictEqual(true);
+      await expect(cache.has("b")).resolves.toStrictEqual(false);
+      await expect(cache.has("c")).resolves.toStrictEqual(true);
+    });
+
+    it("should evict using the configured policy", async () => {
+      const cache = createCache({ maxEntries: 2, evictionPolicy: "fifo" });
+
+      await cache.set({ key: "a", value: uuid() });
+      await cache.set({ key: "b", value: uuid() });
+      await cache.get("a");
+      await cache.set({ key: "c", value: uuid() });
+
+      await expect(cache.has("a")).resolves.toStrictEqual(false);
+      await expect(cache.has("b")).resolves.toStrictEqual(true);
+    });
+
+    it("should evict entries until maxSizeBytes is satisfied", async () => {
+      const cache = createCache({ maxSizeBytes: 10 });
+
+      await cache.set({ key: "a", value: "aa" });
+      await cache.set({ key: "b", value: "bb" });
+      await cache.set({ key: "c", value: "cccc" });
+
+      await expect(cache.has("a")).resolves.toStrictEqual(false);
+      await expect(cache.has("b")).resolves.toStrictEqual(false);
+      await expect(cache.has("c")).resolves.toStrictEqual(true);
+    });
+
+    it("should never evict the entry being written", async () => {
+      const cache = createCache({ maxEntries: 2, evictionPolicy: "lfu" });
+
+      await cache.set({ key: "a", value: uuid() });
+      await cache.set({ key: "b", value: uuid() });
+      await cache.get("a");
+      await cache.get("b");
+
+      await expect(cache.set({ key: "c", value: uuid() })).resolves.toBe(true);
+
+      await expect(cache.has("a")).resolves.toStrictEqual(false);
+      await expect(cache.has("b")).resolves.toStrictEqual(true);
+      await expect(cache.has("c")).resolves.toStrictEqual(true);
+    });
+
+    it("should reject a value larger than maxSizeBytes", async () => {
+      const cache = createCache({ maxSizeBytes: 10 });
+
+      await cache.set({ key: "a", value: "aa" });
+
+      await expect(
+        cache.set({ key: "b", value: "b".repeat(20) }),
+      ).rejects.toThrow("Value of key 'b' is larger than `maxSizeBytes`");
+
+      await expect(cache.has("a")).resolves.toStrictEqual(true);
+      await expect(cache.has("b")).resolves.toStrictEqual(false);
+    });
+
+    it("should emit the evict event with the reason", async () => {
+      const key = uuid();
+      const value = uuid();
+
+      const cache = createCache({ maxEntries: 1 });
+
+      const funcToBeExecutedOnEvict = jest.fn();
+
+      cache.onEvict(funcToBeExecutedOnEvict);
+      cache.onKeyEvict(key, funcToBeExecutedOnEvict);
+
+      await cache.set({ key, value });
+      await cache.set({ key: uuid(), value: uuid() });
+
+      expect(funcToBeExecutedOnEvict).toHaveBeenCalledTimes(2);
+      expect(funcToBeExecutedOnEvict).toHaveBeenCalledWith(
+        expect.objectContaining({ key, value, reason: "max-entries" }),
+      );
+    });
+
+    it("should not evict when replacing the value of an existing key", async () => {
+      const cache = createCache({ maxEntries: 2 });
+
+      const funcToBeExecutedOnEvict = jest.fn();
+      cache.onEvict(funcToBeExecutedOnEvict);
+
+      await cache.set({ key: "a", value: uuid() });
+      await cache.set({ key: "b", value: uuid() });
+      await cache.set({ key: "a", value: uuid() });
+
+      expect(funcToBeExecutedOnEvict).toHaveBeenCalledTimes(0);
+    });
+  });
+
+  describe("save() and load()", () => {
+    const createMemoryStorage = (): StorageAdapter => {
+      let snapshot: Snapshot | undefined;
+
+      return {
+        save: async (value) => {
+          snapshot = JSON.parse(JSON.stringify(value));
+        },
+        load: async () => snapshot,
+      };
+    };
+
+    it("should throw an error when no storage adapter is configured", async () => {
+      const cache = createCache();
+
+      await expect(cache.save()).rejects.toThrow(
+        "No `storage` adapter configured",
+      );
+      await expect(cache.load()).rejects.toThrow(
+        "No `storage` adapter configured",
+      );
+    });
+
+    it("should restore saved entries into another instance", async () => {
+      const storage = createMemoryStorage();
+      const key = uuid();
+      const value = { id: uuid() };
+
+      const cache = createCache({ storage });
+      await cache.set({ key, value });
+      await expect(cache.save()).resolves.toStrictEqual(1);
+
+      const restoredCache = createCache({ storage });
+      await expect(restoredCache.load()).resolves.toStrictEqual(1);
+      await expect(restoredCache.get(key)).resolves.toStrictEqual(value);
+    });
+
+    it("should restore ttl relative to the last update and skip expired entries", async () => {
+      const storage = createMemoryStorage();
+      const key = uuid();
+      const expiredKey = uuid();
+
+      const cache = createCache({ storage });
+      await cache.set({ key, value: uuid(), ttl: 200 });
+      await cache.set({ key: expiredKey, value: uuid(), ttl: 50 });
+
+      jest.setSystemTime(Date.now() + 100);
+      await expect(cache.save()).resolves.toStrictEqual(1);
+
+      const restoredCache = createCache({ storage });
+      await restoredCache.load();
+
+      const funcToBeExecutedOnExpiry = jest.fn();
+      restoredCache.onExpiry(funcToBeExecutedOnExpiry);
+
+      await expect(restoredCache.has(key)).resolves.toStrictEqual(true);
+      await expect(restoredCache.has(expiredKey)).resolves.toStrictEqual(false);
+
+      jest.advanceTimersByTime(101);
+
+      expect(funcToBeExecutedOnExpiry).toHaveBeenCalledTimes(1);
+      await expect(restoredCache.get(key)).resolves.toBeUndefined();
+    });
+
+    it("should refetch restored entries with a re-registered source function", async () => {
+      const storage = createMemoryStorage();
+      const key = uuid();
+      const freshValue = uuid();
+
+      const cache = createCache({ storage });
+      await cache.set({ key, sourceFn: () => uuid() });
+      await cache.save();
+
+      const sourceFn = jest.fn(() => freshValue);
+
+      const restoredCache = createCache({ storage });
+      restoredCache.registerSourceFn(key, sourceFn);
+      await restoredCache.load();
+
+      await expect(restoredCache.refetch(key)).resolves.toStrictEqual(true);
+      await expect(restoredCache.get(key)).resolves.toStrictEqual(freshValue);
+    });
+
+    it("should save periodically with autosaveInterval", async () => {
+      const storage = createMemoryStorage();
+      const save = jest.spyOn(storage, "save");
+
+      const cache = createCache({ storage, autosaveInterval: 1000 });
+      await cache.set({ key: uuid(), value: uuid() });
+
+      jest.advanceTimersByTime(2000);
+
+      expect(save).toHaveBeenCalledTimes(2);
+
+      cache.setStorage(undefined);
+      jest.advanceTimersByTime(1000);
+
+      expect(save).toHaveBeenCalledTimes(2);
+    });
+  });
 });
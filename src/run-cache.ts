@@ -1,47 +1,406 @@
 import { EventEmitter } from "node:events";
-
-type CacheState = {
-  value: string;
+import {
+  EVICTION_POLICY,
+  EvictionPolicy,
+  EvictionPolicyName,
+  createEvictionPolicy,
+} from "./eviction-policy";
+import { mapWithConcurrency } from "./batch";
+import {
+  AbortError,
+  CircuitOpenError,
+  DependencyCycleError,
+  SourceFnError,
+  TimeoutError,
+} from "./errors";
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  RetryPolicy,
+  callAbortable,
+  retry,
+} from "./retry";
+import {
+  CacheStats,
+  METRIC,
+  MetricName,
+  StatsCollector,
+  toPrometheus,
+} from "./metrics";
+import {
+  DELETE_CAUSE,
+  DeleteCause,
+  EVENT,
+  EVICTION_REASON,
+  EventFn,
+  EventListener,
+  EventName,
+  EventParam,
+  EventParamMap,
+  EvictEventFn,
+  EvictionReason,
+  InvalidateEventFn,
+  RefetchFailureEventFn,
+  SET_CAUSE,
+  SetCause,
+} from "./events";
+import {
+  InvalidationBus,
+  InvalidationMessage,
+  InvalidationTransport,
+} from "./invalidation-bus";
+import { CacheNamespace } from "./namespace";
+import { KeyPattern, isSamePattern, isWildcard, toKeyRegExp } from "./pattern";
+import { PluginChain, RunCachePlugin } from "./plugin";
+import { RemoteStore } from "./remote-store";
+import { Scheduler } from "./scheduler";
+import { sizeOf } from "./size-of";
+import { ChangeRecord, ChangeStream, WatchOptions } from "./watch";
+import { Snapshot, SnapshotEntry, StorageAdapter } from "./storage-adapter";
+
+type CacheState<T> = {
+  value: T;
   createAt: number;
   updateAt: number;
   ttl?: number;
+  sliding?: boolean;
+  maxAge?: number;
+  /** The last time a read or `touch()` restarted the `ttl`. */
+  touchAt?: number;
   autoRefetch?: boolean;
-  fetching?: boolean;
-  sourceFn?: SourceFn;
-  interval?: ReturnType<typeof setInterval>;
+  staleWhileRevalidate?: boolean;
+  staleTtl?: number;
+  sourceFn?: SourceFn<T>;
+  retry?: RetryPolicy;
+  timeout?: number;
+  tags?: string[];
+  dependsOn?: string[];
+  negativeTtl?: number;
+  errorTtl?: number;
+  /** Whether the `sourceFn` found no value, cached for `negativeTtl`. */
+  negative?: boolean;
+  /** The failure of the `sourceFn`, cached for `errorTtl`. */
+  error?: SourceFnError;
+  size: number;
+  /** Whether `expire` was emitted since the value was last set or refetched, used with `activeExpiry`. */
+  expired?: boolean;
+};
+
+/**
+ * What a source function is called with. Functions that don't need it can ignore the argument.
+ */
+export type SourceFnContext<T = unknown> = {
+  /** The key being fetched, without the prefix of the namespace it was set in. */
+  key: string;
+  /** Aborted when the fetch times out, or when the key is deleted or the cache flushed while it runs. */
+  signal: AbortSignal;
+  /** The value cached before this fetch, if any, as `get()` would return it. */
+  previousValue?: T;
+  /** The attempt number, starting from `1`. Greater with a `retry` policy only. */
+  attempt: number;
 };
 
-export type EventParam = {
+export type SourceFn<T = unknown> = (
+  context: SourceFnContext<T>,
+) => Promise<T> | T;
+
+export type SetParams<T = unknown> = {
   key: string;
-  value: string;
+  value?: T;
   ttl?: number;
+  sliding?: boolean;
+  maxAge?: number;
+  autoRefetch?: boolean;
+  staleWhileRevalidate?: boolean;
+  staleTtl?: number;
+  sourceFn?: SourceFn<T>;
+  retry?: RetryPolicy;
+  timeout?: number;
+  circuitBreaker?: CircuitBreakerOptions;
+  tags?: string[];
+  dependsOn?: string[];
+  negativeTtl?: number;
+  errorTtl?: number;
+};
+
+export type GetOrSetParams<T = unknown> = Omit<
+  SetParams<T>,
+  "value" | "sourceFn"
+> & {
+  sourceFn: SourceFn<T>;
+};
+
+export type WrapOptions<T = unknown, A extends unknown[] = unknown[]> = Omit<
+  GetOrSetParams<T>,
+  "key" | "sourceFn"
+> & {
+  keyFn: (...args: A) => string;
+};
+
+/**
+ * Loads the values of several keys in a single call. Must return one value per key, in the same order,
+ * with `undefined` for keys that have no value.
+ */
+export type BatchLoader<T = unknown> = (
+  keys: string[],
+) => Promise<(T | undefined)[]> | (T | undefined)[];
+
+export type MgetOptions<T = unknown> = Omit<
+  SetParams<T>,
+  "key" | "value" | "sourceFn"
+> & {
+  loader?: BatchLoader<T>;
+};
+
+export type MgetResult<T = unknown> = {
+  hits: Map<string, T>;
+  misses: string[];
+};
+
+export type MsetResult = {
+  set: number;
+  failed: Map<string, unknown>;
+};
+
+export const LOOKUP_STATUS = Object.freeze({
+  HIT: "hit",
+  /** The key is not cached. */
+  MISS: "miss",
+  /** The `sourceFn` found no value and the miss is cached for `negativeTtl`. */
+  NEGATIVE: "negative",
+  /** The `sourceFn` failed and the error is cached for `errorTtl`. */
+  ERROR: "error",
+});
+
+export type LookupResult<T = unknown> =
+  | { status: typeof LOOKUP_STATUS.HIT; value: T }
+  | { status: typeof LOOKUP_STATUS.MISS }
+  | { status: typeof LOOKUP_STATUS.NEGATIVE }
+  | { status: typeof LOOKUP_STATUS.ERROR; error: SourceFnError };
+
+export type MdeleteResult = {
+  deleted: number;
+  missing: number;
+};
+
+/**
+ * The metadata of a cache entry, as returned by `inspect()`.
+ */
+export type EntryInfo = {
+  key: string;
   createAt: number;
   updateAt: number;
+  ttl?: number;
+  sliding?: boolean;
+  maxAge?: number;
+  /** The time the entry expires at, or `undefined` if it never expires. */
+  expiresAt?: number;
+  /** Whether the entry has expired but was not removed or refetched yet. */
+  expired: boolean;
+  autoRefetch?: boolean;
+  staleWhileRevalidate?: boolean;
+  staleTtl?: number;
+  tags?: string[];
+  dependsOn?: string[];
+  /** Whether the entry caches a miss of the source function. */
+  negative: boolean;
+  /** The cached failure of the source function. */
+  error?: SourceFnError;
+  hasSourceFn: boolean;
+  /** Whether a call to the source function of the entry is in flight. */
+  fetching: boolean;
+  /** The approximate size of the value in bytes. */
+  size: number;
 };
 
-type EmitParam = Pick<CacheState, "value" | "ttl" | "createAt" | "updateAt"> & {
-  key: string;
+export type RunCacheOptions = {
+  maxListeners?: number;
+  maxEntries?: number;
+  maxSizeBytes?: number;
+  evictionPolicy?: EvictionPolicyName | EvictionPolicy;
+  sizeOf?: (value: unknown) => number;
+  storage?: StorageAdapter;
+  autosaveInterval?: number;
+  unref?: boolean;
+  activeExpiry?: boolean;
+  remote?: RemoteStore;
+  invalidationTransport?: InvalidationTransport;
 };
 
-export const EVENT = Object.freeze({
-  EXPIRE: "expire",
-  REFETCH: "refetch",
-  REFETCH_FAILURE: "refetch-failure",
-});
+type FetchOptions<T> = Pick<CacheState<T>, "retry" | "timeout"> & {
+  /** The value cached before the fetch, as stored after the `beforeSet` hooks. */
+  previous?: T;
+};
+
+/** A listener as registered on the emitter, with the listener and key pattern it was registered for by `listen()`. */
+type Wrapper = Parameters<EventEmitter["on"]>[1] & {
+  listener?: unknown;
+  pattern?: KeyPattern;
+};
+
+const EVENT_METRICS: Partial<Record<EventName, MetricName>> = {
+  [EVENT.EXPIRE]: METRIC.EXPIRIES,
+  [EVENT.REFETCH]: METRIC.REFETCHES,
+  [EVENT.REFETCH_FAILURE]: METRIC.REFETCH_FAILURES,
+  [EVENT.EVICT]: METRIC.EVICTIONS,
+  [EVENT.HIT]: METRIC.HITS,
+  [EVENT.MISS]: METRIC.MISSES,
+};
+
+class RunCache<T = unknown> {
+  // Each static method picks its own value type and casts the default instance to it
+  private static defaultInstance: RunCache<unknown> = new RunCache<unknown>();
+
+  private cache: Map<string, CacheState<T>> = new Map<string, CacheState<T>>();
+  private emitter: EventEmitter = new EventEmitter();
+  private inflight: Map<string, Promise<T>> = new Map<string, Promise<T>>();
+  /** Aborts the in-flight fetch of each key. */
+  private controllers: Map<string, AbortController> = new Map<
+    string,
+    AbortController
+  >();
+  private tagIndex: Map<string, Set<string>> = new Map<string, Set<string>>();
+  /** The keys listing each key in their `dependsOn`. */
+  private dependentIndex: Map<string, Set<string>> = new Map<
+    string,
+    Set<string>
+  >();
+  private statsCollector: StatsCollector = new StatsCollector();
+  private scheduler: Scheduler;
+  private namespaces: Map<string, CacheNamespace<T>> = new Map<
+    string,
+    CacheNamespace<T>
+  >();
+  private breakers: Map<string, CircuitBreaker> = new Map<
+    string,
+    CircuitBreaker
+  >();
+
+  private activeExpiry: boolean;
+  private maxEntries?: number;
+  private maxSizeBytes?: number;
+  private evictionPolicy: EvictionPolicy;
+  private sizeOf: (value: unknown) => number;
+  private totalSize = 0;
+
+  private storage?: StorageAdapter;
+  private autosave?: ReturnType<typeof setInterval>;
+  private sourceFns: Map<string, SourceFn<T>> = new Map<string, SourceFn<T>>();
+
+  private remote?: RemoteStore;
+  private remoteLoads: Map<string, Promise<T | undefined>> = new Map<
+    string,
+    Promise<T | undefined>
+  >();
+
+  private bus?: InvalidationBus;
+
+  private plugins: PluginChain<T> = new PluginChain<T>();
+
+  private streams: Set<ChangeStream<T>> = new Set<ChangeStream<T>>();
+
+  /**
+   * Creates an isolated cache instance with its own store, emitter, TTL timers and listeners.
+   *
+   * @param {RunCacheOptions} [options] - Options for the instance.
+   * @param {number} [options.maxListeners] - The maximum number of listeners allowed per event before Node warns about a possible leak.
+   * @param {number} [options.maxEntries] - The maximum number of entries. Exceeding it evicts entries picked by the eviction policy.
+   * @param {number} [options.maxSizeBytes] - The maximum approximate size of all values in bytes. Exceeding it evicts entries picked by the eviction policy,
+   * never the entry being written. Values larger than the limit on their own are rejected.
+   * @param {EvictionPolicyName | EvictionPolicy} [options.evictionPolicy] - `lru` (default), `lfu`, `fifo` or a custom policy.
+   * @param {Function} [options.sizeOf] - A function that returns the size of a value in bytes, used for `maxSizeBytes`.
+   * @param {StorageAdapter} [options.storage] - The adapter used by `save()` and `load()`.
+   * @param {number} [options.autosaveInterval] - Saves a snapshot to the `storage` every given number of milliseconds.
+   * @param {boolean} [options.unref] - Whether the TTL timer should not keep the Node.js process alive. Defaults to `false`.
+   * @param {boolean} [options.activeExpiry] - Whether to remove expired entries on time and emit `expire` only once per value, instead of
+   * every `ttl` with lazy removal in `get()`. Entries with `autoRefetch` are refetched once they expire. Defaults to `false`.
+   * @param {RemoteStore} [options.remote] - A store shared with other instances, used as a second tier behind the in-memory entries.
+   * @param {InvalidationTransport} [options.invalidationTransport] - Broadcasts deletions, refetches and flushes to other instances.
+   *
+   * @throws {Error} If `maxEntries` or `maxSizeBytes` is not a positive number.
+   */
+  constructor(options: RunCacheOptions = {}) {
+    if (options.maxListeners !== undefined) {
+      this.emitter.setMaxListeners(options.maxListeners);
+    }
+
+    if (options.maxEntries !== undefined && !(options.maxEntries > 0)) {
+      throw new Error("Value `maxEntries` must be a positive number");
+    }
+
+    if (options.maxSizeBytes !== undefined && !(options.maxSizeBytes > 0)) {
+      throw new Error("Value `maxSizeBytes` must be a positive number");
+    }
+
+    this.scheduler = new Scheduler((key, at) => this.onTimer(key, at), {
+      unref: options.unref,
+    });
+
+    this.activeExpiry = options.activeExpiry ?? false;
+    this.maxEntries = options.maxEntries;
+    this.maxSizeBytes = options.maxSizeBytes;
+    this.sizeOf = options.sizeOf ?? sizeOf;
+    this.evictionPolicy =
+      typeof options.evictionPolicy === "object"
+        ? options.evictionPolicy
+        : createEvictionPolicy(options.evictionPolicy ?? EVICTION_POLICY.LRU);
+
+    if (options.storage) {
+      this.setStorage(options.storage, options.autosaveInterval);
+    }
 
-type EventName = (typeof EVENT)[keyof typeof EVENT];
+    this.remote = options.remote;
 
-type SourceFn = () => Promise<string> | string;
-type EventFn = (params: EventParam) => Promise<void> | void;
+    if (options.invalidationTransport) {
+      this.setInvalidationTransport(options.invalidationTransport);
+    }
+  }
+
+  /**
+   * Returns the last millisecond an entry is fresh, or `undefined` if it never expires. The `ttl` counts from the
+   * last write, read of a `sliding` entry or `touch()`, the `maxAge` from the last write.
+   */
+  private expiresAt(
+    cache: Pick<
+      CacheState<T>,
+      | "ttl"
+      | "maxAge"
+      | "updateAt"
+      | "touchAt"
+      | "negative"
+      | "negativeTtl"
+      | "error"
+      | "errorTtl"
+    >,
+  ): number | undefined {
+    if (cache.error) return cache.updateAt + (cache.errorTtl ?? 0);
+    if (cache.negative) return cache.updateAt + (cache.negativeTtl ?? 0);
+
+    const ttlDeadline = cache.ttl
+      ? Math.max(cache.updateAt, cache.touchAt ?? 0) + cache.ttl
+      : undefined;
+
+    const maxAgeDeadline =
+      cache.maxAge !== undefined ? cache.updateAt + cache.maxAge : undefined;
+
+    if (ttlDeadline === undefined) return maxAgeDeadline;
+    if (maxAgeDeadline === undefined) return ttlDeadline;
+
+    return Math.min(ttlDeadline, maxAgeDeadline);
+  }
 
-class RunCache {
-  private static cache: Map<string, CacheState> = new Map<string, CacheState>();
-  private static emitter: EventEmitter = new EventEmitter();
+  private isExpired(cache: CacheState<T>): boolean {
+    const expiresAt = this.expiresAt(cache);
+
+    return expiresAt !== undefined && expiresAt < Date.now();
+  }
 
-  private static isExpired(cache: CacheState): boolean {
-    if (!cache.ttl) return false;
+  private isServableStale(cache: CacheState<T>): boolean {
+    if (cache.staleTtl === undefined) return true;
 
-    return cache.updateAt + cache.ttl < Date.now();
+    return (
+      (this.expiresAt(cache) ?? cache.updateAt) + cache.staleTtl >= Date.now()
+    );
   }
 
   /**
@@ -49,35 +408,80 @@ class RunCache {
    *
    * @param {Object} params - The parameters to set in the cache.
    * @param {string} params.key - The key for the cache entry. Must be a non-empty string.
-   * @param {string} [params.value] - The value to store in the cache. If not provided, the `sourceFn` must be defined to generate the value.
+   * @param {T} [params.value] - The value to store in the cache. Any value except `undefined` or an empty string is accepted. If not provided, the `sourceFn` must be defined to generate the value.
    * @param {number} [params.ttl] - The time-to-live for the cache entry in milliseconds. After this time, the cache entry will expire.
+   * @param {boolean} [params.sliding] - Whether every `get()` or `has()` hit restarts the `ttl`. Requires a TTL to be set.
+   * @param {number} [params.maxAge] - The time in milliseconds after which the entry expires even if it keeps being read.
    * @param {boolean} [params.autoRefetch] - Whether to automatically refetch the value after the TTL expires. Requires a TTL to be set.
-   * @param {SourceFn} [params.sourceFn] - A function that returns the value for the cache. This is used when the value is not provided directly.
+   * @param {boolean} [params.staleWhileRevalidate] - Whether `get()` should return the expired value immediately and refetch in the background. Requires `autoRefetch`.
+   * @param {number} [params.staleTtl] - How long in milliseconds after expiry a stale value may still be served. Without it, stale values are served until refetched.
+   * @param {SourceFn<T>} [params.sourceFn] - A function that returns the value for the cache. This is used when the value is not provided directly.
+   * Concurrent calls for the same key share a single in-flight call to the source function.
+   * @param {RetryPolicy} [params.retry] - How often and how fast to retry the `sourceFn` when it throws, with an optional per-attempt `timeout`.
+   * @param {number} [params.timeout] - Time in milliseconds after which a call to the `sourceFn`, retries included, fails with a `TimeoutError`
+   * and its `signal` is aborted. Applies to later refetches of the entry too.
+   * @param {CircuitBreakerOptions} [params.circuitBreaker] - Stops calling the `sourceFn` for `cooldown` milliseconds after `threshold` consecutive failures.
+   * @param {string[]} [params.tags] - Tags to invalidate or refetch the entry with, together with other entries sharing a tag.
+   * @param {string[]} [params.dependsOn] - Keys the value is derived from. The entry is invalidated when one of them is deleted
+   * or expires, and refetched when one of them is refetched. The keys don't need to be cached yet.
+   * @param {number} [params.negativeTtl] - Caches a `sourceFn` returning `undefined` as a miss for this many milliseconds,
+   * instead of storing `undefined` as the value. See `lookup()`.
+   * @param {number} [params.errorTtl] - Caches a failure of the `sourceFn` for this many milliseconds. Reads re-throw it
+   * instead of calling the `sourceFn` again.
    *
-   * @returns {Promise<boolean>} - Returns `true` when the cache entry is successfully set.
+   * @returns {Promise<boolean>} - Returns `true` when the cache entry is successfully set, `false` when a plugin vetoed it.
    *
    * @throws {Error} If the key is empty, if both `value` and `sourceFn` are missing, or if `autoRefetch` is set without a TTL.
-   * @throws {Error} If `ttl` is negative.
-   * @throws {Error} If the `sourceFn` fails to generate a value.
-   */
-  static async set({
-    key,
-    value,
-    ttl,
-    sourceFn,
-    autoRefetch,
-  }: {
-    key: string;
-    value?: string;
-    ttl?: number;
-    autoRefetch?: boolean;
-    sourceFn?: SourceFn;
-  }): Promise<boolean> {
+   * @throws {Error} If `staleWhileRevalidate` is set without `autoRefetch`, or `sliding` without a TTL.
+   * @throws {Error} If `ttl` or `staleTtl` is negative, or `maxAge`, `timeout`, `negativeTtl` or `errorTtl` is not a positive number.
+   * @throws {DependencyCycleError} If the `dependsOn` keys lead back to the key.
+   * @throws {Error} If the value alone is larger than `maxSizeBytes`.
+   * @throws {SourceFnError} If the `sourceFn` fails to generate a value, or its fetch was aborted by `delete()` or `flush()`.
+   * @throws {Error} If writing to the `remote` store fails. The entry is cached locally anyway.
+   */
+  async set(params: SetParams<T>): Promise<boolean> {
+    const { stored } = await this.setEntry(params);
+
+    return stored;
+  }
+
+  /**
+   * @param {Object} [options] - How the entry is set.
+   * @param {Object} [options.fetched] - The value already returned by the `sourceFn`, which is not called again.
+   * @param {boolean} [options.readThrough] - Whether the entry is set by a read, which doesn't fail when writing to the `remote` store does.
+   */
+  private async setEntry(
+    {
+      key,
+      value,
+      ttl,
+      sliding,
+      maxAge,
+      sourceFn,
+      autoRefetch,
+      staleWhileRevalidate,
+      staleTtl,
+      retry,
+      timeout,
+      circuitBreaker,
+      tags,
+      dependsOn,
+      negativeTtl,
+      errorTtl,
+    }: SetParams<T>,
+    {
+      fetched,
+      readThrough,
+    }: { fetched?: { value: T | undefined }; readThrough?: boolean } = {},
+  ): Promise<{ stored: boolean; value: T }> {
     if (!key?.length) {
       throw new Error("Empty key");
     }
 
-    if (sourceFn === undefined && (value === undefined || !value.length)) {
+    if (
+      sourceFn === undefined &&
+      (value === undefined || (typeof value === "string" && !value.length))
+    ) {
       throw new Error("`value` can't be empty without a `sourceFn`");
     }
 
@@ -85,365 +489,2199 @@ class RunCache {
       throw new Error("`autoRefetch` is not allowed without a `ttl`");
     }
 
-    const time = Date.now();
-
-    // Clear existing interval if the key already exists
-    const existingCache = RunCache.cache.get(key);
-    if (existingCache?.interval) {
-      clearInterval(existingCache.interval);
+    if (sliding && !ttl) {
+      throw new Error("`sliding` is not allowed without a `ttl`");
     }
 
-    let interval: ReturnType<typeof setInterval> | null = null;
-
-    if (ttl !== undefined) {
-      if (ttl < 0) throw new Error("Value `ttl` cannot be negative");
-
-      interval = setInterval(() => {
-        RunCache.emitEvent(EVENT.EXPIRE, {
-          key,
-          value: value ?? "undefined",
-          ttl,
-          createAt: time,
-          updateAt: time,
-        });
-
-        if (typeof sourceFn === "function" && autoRefetch) {
-          RunCache.refetch(key).catch((e) => {
-            /* Ignore as the event is already emitted inside the function */
-          });
-        }
-      }, ttl);
+    if (maxAge !== undefined && !(maxAge > 0)) {
+      throw new Error("Value `maxAge` must be a positive number");
     }
 
-    let cacheValue = value;
-
-    if (value === undefined && typeof sourceFn === "function") {
-      try {
-        cacheValue = await sourceFn();
-      } catch (e) {
-        throw new Error(`Source function failed for key: '${key}'`);
-      }
+    if (timeout !== undefined && !(timeout > 0)) {
+      throw new Error("Value `timeout` must be a positive number");
     }
 
-    RunCache.cache.set(key, {
-      value: cacheValue ?? "undefined",
-      ttl,
-      sourceFn,
-      autoRefetch,
-      interval: interval || undefined,
-      createAt: time,
-      updateAt: time,
-    });
+    if (negativeTtl !== undefined && !(negativeTtl > 0)) {
+      throw new Error("Value `negativeTtl` must be a positive number");
+    }
 
-    return true;
-  }
+    if (errorTtl !== undefined && !(errorTtl > 0)) {
+      throw new Error("Value `errorTtl` must be a positive number");
+    }
 
-  /**
-   * Refetch the cached value using the stored source function and updates the cache with the new value.
-   *
-   * @param {string} key - The cache key.
-   * @returns {Promise<boolean>} A promise that resolves to a boolean representing the execution state of the request.
-   */
-  static async refetch(key: string): Promise<boolean> {
-    const cached = RunCache.cache.get(key);
+    if (staleWhileRevalidate && !autoRefetch) {
+      throw new Error(
+        "`staleWhileRevalidate` is not allowed without `autoRefetch`",
+      );
+    }
 
-    if (!cached) {
-      return false;
+    if (staleTtl !== undefined && staleTtl < 0) {
+      throw new Error("Value `staleTtl` cannot be negative");
     }
 
-    if (typeof cached.sourceFn === "undefined") {
-      return false;
+    if (!circuitBreaker) {
+      this.breakers.delete(key);
+    } else if (!this.breakers.has(key)) {
+      this.breakers.set(key, new CircuitBreaker(circuitBreaker));
     }
 
-    if (cached.fetching) {
-      return false;
+    if (ttl !== undefined && ttl < 0) {
+      throw new Error("Value `ttl` cannot be negative");
     }
 
-    try {
-      RunCache.cache.set(key, { fetching: true, ...cached });
+    if (dependsOn?.some((dependency) => !dependency)) {
+      throw new Error("Empty key in `dependsOn`");
+    }
 
-      const value = await cached.sourceFn();
+    if (dependsOn?.length) {
+      this.assertAcyclic(key, dependsOn);
+    }
 
-      const refetchedCache = {
-        value: value,
-        ttl: cached.ttl,
-        sourceFn: cached.sourceFn,
-        createAt: cached.createAt,
-        updateAt: Date.now(),
-      };
+    const time = Date.now();
 
-      RunCache.cache.set(key, {
-        ...refetchedCache,
-        fetching: undefined,
-      });
+    let cacheValue = value as T;
+    let failure: Pick<CacheState<T>, "negative" | "error"> | undefined;
 
-      RunCache.emitEvent(EVENT.REFETCH, {
-        key,
-        value: refetchedCache.value,
-        ttl: refetchedCache.ttl,
-        createAt: refetchedCache.createAt,
-        updateAt: refetchedCache.updateAt,
-      });
+    if (value === undefined && typeof sourceFn === "function") {
+      try {
+        cacheValue = fetched
+          ? (fetched.value as T)
+          : await this.fetchSource(key, sourceFn, {
+              retry,
+              timeout,
+              previous: this.cache.get(key)?.value,
+            });
+      } catch (e) {
+        const error = SourceFnError.from(key, e);
 
-      return true;
-    } catch (e) {
-      RunCache.cache.set(key, {
-        ...cached,
-        fetching: undefined,
-      });
+        // A key deleted while it was being fetched stays deleted
+        if (errorTtl === undefined || error.cause instanceof AbortError) {
+          throw error;
+        }
 
-      RunCache.emitEvent(EVENT.REFETCH_FAILURE, {
-        key,
-        value: cached.value,
-        ttl: cached.ttl,
-        createAt: cached.createAt,
-        updateAt: cached.updateAt,
-      });
+        failure = { error };
+      }
 
-      throw new Error(`Source function failed for key: '${key}'`);
+      if (!failure && cacheValue === undefined && negativeTtl !== undefined) {
+        failure = { negative: true };
+      }
     }
-  }
 
-  /**
-   * Retrieves a value from the cache by key. If the cached value has expired, it will be removed from the cache unless
-   * `autoRefetch` is enabled with an associated `sourceFn`, in which case the value will be refetched automatically.
-   *
-   * @async
-   * @param {string} key - The key of the cache entry to retrieve.
-   * @returns {Promise<string | undefined>} A promise that resolves to the cached value if found and not expired, or `undefined` if the key is not found or the value has expired.
-   */
-  static async get(key: string): Promise<string | undefined> {
-    if (!key) {
-      return undefined;
+    // Misses and failures are not values, plugins and the `remote` store don't see them
+    if (this.plugins.size && !failure) {
+      const write = await this.plugins.beforeSet(key, cacheValue);
+      if (!write) return { stored: false, value: cacheValue };
+
+      cacheValue = write.value;
     }
 
-    const cached = RunCache.cache.get(key);
+    const entry: CacheState<T> = {
+      value: cacheValue,
+      ttl,
+      sliding,
+      maxAge,
+      sourceFn,
+      retry,
+      timeout,
+      tags: tags?.length ? [...new Set(tags)] : undefined,
+      dependsOn: dependsOn?.length ? [...new Set(dependsOn)] : undefined,
+      autoRefetch,
+      staleWhileRevalidate,
+      staleTtl,
+      negativeTtl,
+      errorTtl,
+      ...failure,
+      createAt: time,
+      updateAt: time,
+      size: this.sizeOf(cacheValue),
+    };
 
-    if (!cached) {
-      return undefined;
+    if (this.exceedsMaxSize(entry.size)) {
+      throw new Error(`Value of key '${key}' is larger than \`maxSizeBytes\``);
     }
 
-    if (!RunCache.isExpired(cached)) {
-      return cached.value;
-    }
+    this.scheduleExpiry(key, entry);
+    this.storeEntry(key, entry, SET_CAUSE.SET);
 
-    RunCache.emitEvent(EVENT.EXPIRE, {
-      key: key,
-      value: cached.value,
-      ttl: cached.ttl,
-      createAt: cached.createAt,
-      updateAt: cached.updateAt,
-    });
+    if (failure?.error) throw failure.error;
+    if (failure) return { stored: true, value: cacheValue };
 
-    if (typeof cached.sourceFn === "undefined" || !cached.autoRefetch) {
-      RunCache.cache.delete(key);
-      return undefined;
+    try {
+      await this.writeRemote(key, entry);
+    } catch (e) {
+      // The value is cached locally, other instances fetch it on their own
+      if (!readThrough) throw e;
     }
 
-    await RunCache.refetch(key);
+    await this.plugins.afterSet(key, cacheValue);
 
-    return RunCache.cache.get(key)?.value ?? undefined;
+    return { stored: true, value: cacheValue };
   }
 
   /**
-   * Deletes a cache entry by its key. If the entry has an active interval (for TTL), it clears the interval.
+   * Returns the cached value of a key when it is present, otherwise runs the source function, caches its result and returns it.
+   * Concurrent calls for a missing key share a single call to the source function.
    *
-   * @param {string} key - The key of the cache entry to delete. Must be a non-empty string.
+   * @param {Object} params - Accepts the same parameters as `set()` except `value`.
+   * @param {string} params.key - The key for the cache entry. Must be a non-empty string.
+   * @param {SourceFn<T>} params.sourceFn - A function that returns the value when the key is not cached.
    *
-   * @returns {boolean} - Returns `true` if the cache entry was successfully deleted, `false` if no entry exists for the given key.
+   * @returns {Promise<T>} - The cached or freshly fetched value. With a `negativeTtl`, `undefined` for a cached miss.
+   * Without one, a miss cached by another call is fetched again.
+   *
+   * @throws {Error} For the same reasons as `set()`.
    */
-  static delete(key: string): boolean {
-    const cache = RunCache.cache.get(key);
-    if (!cache) return false;
-
-    if (cache.interval) {
-      clearInterval(cache.interval);
+  getOrSet(
+    params: GetOrSetParams<T> & { negativeTtl: number },
+  ): Promise<T | undefined>;
+  getOrSet(params: GetOrSetParams<T>): Promise<T>;
+  async getOrSet(params: GetOrSetParams<T>): Promise<T | undefined> {
+    // With a `remote` store, another instance may have cached the key already
+    if (this.cache.has(params.key) || this.remote) {
+      const value = await this.get(params.key);
+      const cached = this.cache.get(params.key);
+
+      // An expired entry without `autoRefetch` is removed by `get()`, fetch it again below
+      if (cached && (!cached.negative || params.negativeTtl !== undefined)) {
+        return value;
+      }
     }
 
-    return RunCache.cache.delete(key);
+    const { stored, value } = await this.setEntry(params, {
+      readThrough: true,
+    });
+
+    // Return the value as `get()` would return it
+    return stored && this.plugins.size
+      ? ((await this.plugins.afterGet(params.key, value)) as T)
+      : value;
   }
 
   /**
-   * Deletes all cache entries and clears any active intervals for TTL.
-   * This method iterates over all cache entries, clears any associated intervals, and then clears the entire cache.
+   * Turns a function into a memoized function that caches its results using `getOrSet()`.
    *
-   * @returns {void}
+   * @param {Function} fn - The function to memoize. Its arguments are passed to `keyFn` to build the cache key.
+   * @param {Object} options - Accepts the same parameters as `set()` except `key`, `value` and `sourceFn`.
+   * @param {Function} options.keyFn - Builds the cache key from the arguments of a call.
+   *
+   * @returns {Function} - A function with the same arguments as `fn` that resolves to the cached or freshly computed result,
+   * or with a `negativeTtl` to `undefined` for a cached miss.
    */
-  static flush(): void {
-    const values = Array.from(RunCache.cache.values());
-
-    values.forEach(({ interval }) => {
-      if (interval) {
-        clearInterval(interval);
-      }
-    });
-
-    RunCache.cache.clear();
+  wrap<A extends unknown[]>(
+    fn: (...args: A) => Promise<T> | T,
+    options: WrapOptions<T, A> & { negativeTtl: number },
+  ): (...args: A) => Promise<T | undefined>;
+  wrap<A extends unknown[]>(
+    fn: (...args: A) => Promise<T> | T,
+    options: WrapOptions<T, A>,
+  ): (...args: A) => Promise<T>;
+  wrap<A extends unknown[]>(
+    fn: (...args: A) => Promise<T> | T,
+    { keyFn, ...options }: WrapOptions<T, A>,
+  ): (...args: A) => Promise<T | undefined> {
+    return (...args: A) =>
+      this.getOrSet({
+        ...options,
+        key: keyFn(...args),
+        sourceFn: () => fn(...args),
+      });
   }
 
   /**
-   * Checks if a cache entry exists for the given key and whether it has expired.
+   * Retrieves the values of several keys at once, like calling `get()` for each of them.
+   * With a `loader`, all missing keys are loaded in a single call, cached and returned as hits.
    *
-   * @param {string} key - The key of the cache entry to check.
-   * @returns {Promise<boolean>} - A promise that resolves to `true` if the cache entry exists and is not expired, otherwise `false`.
+   * @param {string[]} keys - The keys to retrieve.
+   * @param {MgetOptions<T>} [options] - The batch loader, and the same parameters as `set()` except `key`, `value` and `sourceFn`
+   * for caching the loaded values. Loaded entries are refetched by calling the loader with their key alone. With a `negativeTtl`,
+   * keys the loader returns `undefined` for are cached as misses and not loaded again until it runs out.
    *
-   * This method retrieves the cache entry by key and checks if it is still valid.
-   * If the cache entry has expired, an "expire" event is emitted and the method returns `false`.
+   * @returns {Promise<MgetResult<T>>} - The values found by key, and the keys that were not found.
+   *
+   * @throws {Error} If the loader does not return one value per key, or for the same reasons as `set()`.
    */
-  static async has(key: string): Promise<boolean> {
-    const cached = RunCache.cache.get(key);
+  async mget(
+    keys: string[],
+    { loader, ...options }: MgetOptions<T> = {},
+  ): Promise<MgetResult<T>> {
+    const uniqueKeys = [...new Set(keys)];
+    const results = await Promise.all(
+      uniqueKeys.map((key) => this.lookup(key)),
+    );
+
+    const hits = new Map<string, T>();
+    let misses: string[] = [];
+    const unloaded: string[] = [];
+
+    uniqueKeys.forEach((key, index) => {
+      const result = results[index];
+
+      if (result.status === LOOKUP_STATUS.HIT && result.value !== undefined) {
+        hits.set(key, result.value);
+        return;
+      }
 
-    if (!cached) {
-      return false;
-    }
+      misses.push(key);
 
-    if (RunCache.isExpired(cached)) {
-      RunCache.emitEvent(EVENT.EXPIRE, {
-        key: key,
-        value: cached.value,
-        ttl: cached.ttl,
-        createAt: cached.createAt,
-        updateAt: cached.updateAt,
-      });
+      // Cached misses and failures are not loaded again
+      if (result.status === LOOKUP_STATUS.MISS) unloaded.push(key);
+    });
 
-      return false;
+    if (!loader || !unloaded.length) return { hits, misses };
+
+    const loaded = await loader(unloaded);
+
+    if (!Array.isArray(loaded) || loaded.length !== unloaded.length) {
+      throw new Error(
+        `Batch loader must return ${unloaded.length} values, one for each key`,
+      );
     }
 
-    return true;
-  }
+    await Promise.all(
+      unloaded.map((key, index) => {
+        const value = loaded[index];
+        if (value === undefined && options.negativeTtl === undefined) return;
 
-  private static emitEvent(event: EventName, cache: EmitParam) {
-    [event, `${event}-${cache.key}`].forEach((eventId) => {
-      RunCache.emitter.emit(eventId, {
-        key: cache.key,
-        value: cache.value,
-        ttl: cache.ttl,
-        createAt: cache.createAt,
-        updateAt: cache.updateAt,
-      });
-    });
-  }
+        if (value !== undefined) hits.set(key, value);
 
-  /**
-   * Registers a callback function to be executed when the global `expire` event is triggered.
-   *
-   * @param {EventFn} callback - The function to be executed when the event is triggered.
-   *
-   * @returns {void}
-   */
-  static onExpiry(callback: EventFn): void {
-    RunCache.emitter.on(EVENT.EXPIRE, callback);
+        return this.setEntry(
+          {
+            ...options,
+            key,
+            sourceFn: async () => (await loader([key]))[0] as T,
+          },
+          { fetched: { value }, readThrough: true },
+        );
+      }),
+    );
+
+    misses = misses.filter((key) => !hits.has(key));
+
+    return { hits, misses };
   }
 
   /**
-   * Registers a callback function to be executed when the `expire` event for a specific key is triggered.
+   * Sets several cache entries at once, running at most `concurrency` source functions at the same time.
+   * An entry that fails to be set does not stop the others.
    *
-   * @param {string} key - The key for which the expiration event is being tracked.
-   * @param {EventFn} callback - The function to be executed when the event is triggered.
+   * @param {SetParams<T>[]} entries - The parameters of each entry, see `set()`.
+   * @param {Object} [options] - Options for the batch.
+   * @param {number} [options.concurrency] - The maximum number of entries set at the same time. Unlimited by default.
    *
-   * @returns {void}
+   * @returns {Promise<MsetResult>} - The number of entries set, and the error of every entry that failed by key.
+   * Entries vetoed by a plugin are neither set nor failed.
    *
-   * @throws {Error} If the `key` is empty.
+   * @throws {Error} If `concurrency` is not a positive number.
    */
-  static onKeyExpiry(key: string, callback: EventFn): void {
-    if (!key) throw Error("Empty key");
+  async mset(
+    entries: SetParams<T>[],
+    { concurrency = Infinity }: { concurrency?: number } = {},
+  ): Promise<MsetResult> {
+    if (!(concurrency > 0)) {
+      throw new Error("Value `concurrency` must be a positive number");
+    }
 
-    RunCache.emitter.on(`${EVENT.EXPIRE}-${key}`, callback);
-  }
+    const results = await mapWithConcurrency(entries, concurrency, (params) =>
+      this.set(params),
+    );
 
-  /**
-   * Registers a callback function to be executed when the global `refetch` event is triggered.
-   *
-   * @param {EventFn} callback - The function to be executed when the event is triggered.
-   *
-   * @returns {void}
-   */
-  static onRefetch(callback: EventFn): void {
-    RunCache.emitter.on(EVENT.REFETCH, callback);
+    const failed = new Map<string, unknown>();
+    let set = 0;
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        failed.set(entries[index].key, result.reason);
+      } else if (result.value) {
+        set += 1;
+      }
+    });
+
+    return { set, failed };
   }
 
   /**
-   * Registers a callback function to be executed when the `refetch` event for a specific key is triggered.
+   * Deletes several cache entries at once. See `delete()`.
    *
-   * @param {string} key - The key for which the refetch event is being tracked.
-   * @param {EventFn} callback - The function to be executed when the event is triggered.
-   *
-   * @returns {void}
+   * @param {string[]} keys - The keys of the entries to delete.
    *
-   * @throws {Error} If the `key` is empty.
+   * @returns {MdeleteResult} - The number of deleted entries, and the number of keys that were not cached.
    */
-  static onKeyRefetch(key: string, callback: EventFn): void {
-    if (!key) throw Error("Empty key");
+  mdelete(keys: string[]): MdeleteResult {
+    const deleted = keys.filter((key) => this.delete(key)).length;
 
-    RunCache.emitter.on(`${EVENT.REFETCH}-${key}`, callback);
+    return { deleted, missing: keys.length - deleted };
   }
 
   /**
-   * Registers a callback to be called when a refetch failure occurs for any key.
+   * Checks the existence of several keys at once. See `has()`.
    *
-   * @param {EventFn} callback - The function to be executed when a refetch failure event occurs.
+   * @param {string[]} keys - The keys to check.
+   *
+   * @returns {Promise<Map<string, boolean>>} - Whether each key is cached and not expired.
    */
-  static onRefetchFailure(callback: EventFn): void {
-    RunCache.emitter.on(`${EVENT.REFETCH_FAILURE}`, callback);
+  async mhas(keys: string[]): Promise<Map<string, boolean>> {
+    const uniqueKeys = [...new Set(keys)];
+    const results = await Promise.all(uniqueKeys.map((key) => this.has(key)));
+
+    return new Map(uniqueKeys.map((key, index) => [key, results[index]]));
   }
 
   /**
-   * Registers a callback to be called when a refetch failure occurs for a specific key.
+   * Refetch the cached value using the stored source function and updates the cache with the new value.
+   * Concurrent refetches of the same key share a single in-flight call to the source function and settle together.
+   * Entries depending on the key are refetched, or invalidated without a source function, before it resolves.
    *
-   * @param {string} key - The key for which to listen for refetch failures.
-   * @param {EventFn} callback - The function to be executed when a refetch failure event occurs for the specified key.
+   * @param {string} key - The cache key.
+   * @param {Object} [options] - Options for this refetch.
+   * @param {number} [options.timeout] - Overrides the `timeout` of the entry for this call. A refetch joining one already in flight keeps its timeout.
+   * @returns {Promise<boolean>} A promise that resolves to a boolean representing the execution state of the request.
+   * Resolves to `false` when the key is deleted or the cache flushed before the source function settles.
    *
-   * @throws {Error} Throws an error if the key is empty.
+   * @throws {Error} If `timeout` is not a positive number.
+   * @throws {SourceFnError} If the source function fails after all retry attempts, times out or its circuit is open.
+   * @throws {Error} If the new value alone is larger than `maxSizeBytes`. The previous value is kept.
    */
-  static onKeyRefetchFailure(key: string, callback: EventFn): void {
-    if (!key) throw Error("Empty key");
+  async refetch(key: string, options?: { timeout?: number }): Promise<boolean> {
+    if (options?.timeout !== undefined && !(options.timeout > 0)) {
+      throw new Error("Value `timeout` must be a positive number");
+    }
 
-    RunCache.emitter.on(`${EVENT.REFETCH_FAILURE}-${key}`, callback);
+    return this.refetchEntry(key, true, undefined, options?.timeout);
   }
 
   /**
-   * Clears event listeners from the RunCache emitter based on the specified event and key.
-   *
-   * - If no parameters are provided, all event listeners will be removed.
-   * - If only an `event` is provided, all listeners for that event will be removed.
-   * - If both `event` and `key` are provided, listeners for that specific event-key combination will be removed.
-   *
-   * @param {Object} [params] - Optional parameters to specify which listeners to clear.
-   * @param {EventName} [params.event] - The event type for which listeners should be removed.
-   * @param {string} [params.key] - The key associated with the event for which listeners should be removed. Must be provided if `event` is provided.
-   *
-   * @returns {boolean} - Returns `true` if listeners were removed successfully or `false` if no action was taken.
-   *
-   * @throws {Error} If `key` is provided without an `event`.
+   * @param {string} [parent] - The key whose refetch triggered this one through `dependsOn`. Its dependents are refetched already.
+   * @param {number} [timeout] - Overrides the `timeout` of the entry.
    */
-  static clearEventListeners(params?: {
-    event?: EventName;
-    key?: string;
-  }): boolean {
-    if (!params) {
-      RunCache.emitter.removeAllListeners();
-      return true;
-    }
+  private async refetchEntry(
+    key: string,
+    broadcast: boolean,
+    parent?: string,
+    timeout?: number,
+  ): Promise<boolean> {
+    const cached = this.cache.get(key);
+
+    if (!cached) {
+      return false;
+    }
+
+    if (typeof cached.sourceFn === "undefined") {
+      return false;
+    }
+
+    // Join the fetch that is already in flight for this key instead of calling the source again
+    const inflight = this.inflight.get(key);
+    if (inflight) {
+      try {
+        await inflight;
+      } catch (e) {
+        const error = SourceFnError.from(key, e);
+
+        if (error.cause instanceof AbortError) return false;
+
+        throw error;
+      }
+
+      if (broadcast) this.bus?.publish({ type: "refetch", key });
+
+      return true;
+    }
+
+    if (
+      this.plugins.size &&
+      !(await this.plugins.beforeRefetch(key, cached.value))
+    ) {
+      return false;
+    }
+
+    let value: T;
+
+    try {
+      value = await this.fetchSource(key, cached.sourceFn, {
+        retry: cached.retry,
+        timeout: timeout ?? cached.timeout,
+        previous: cached.value,
+      });
+    } catch (e) {
+      const error = SourceFnError.from(key, e);
+
+      // The key was deleted or the cache flushed, like a refetch of a replaced entry below
+      if (error.cause instanceof AbortError) return false;
+
+      this.emitEvent(EVENT.REFETCH_FAILURE, {
+        ...this.eventParam(key, cached),
+        attempts: error.attempts,
+        error: error.cause,
+      });
+
+      if (cached.errorTtl !== undefined && this.cache.get(key) === cached) {
+        // Keep the previous value for events, reads re-throw the error until `errorTtl` runs out
+        const failedCache: CacheState<T> = {
+          ...cached,
+          error,
+          updateAt: Date.now(),
+          expired: false,
+        };
+
+        this.cache.set(key, failedCache);
+        this.scheduleExpiry(key, failedCache);
+      }
+
+      throw error;
+    }
+
+    const negative = value === undefined && cached.negativeTtl !== undefined;
+
+    if (this.plugins.size && !negative) {
+      const write = await this.plugins.beforeSet(key, value);
+      if (!write) return false;
+
+      value = write.value;
+    }
+
+    // The entry was deleted or replaced while fetching, don't overwrite it
+    if (this.cache.get(key) !== cached) {
+      return false;
+    }
+
+    const refetchedCache: CacheState<T> = {
+      ...cached,
+      value,
+      updateAt: Date.now(),
+      size: this.sizeOf(value),
+      expired: false,
+      negative,
+      error: undefined,
+    };
+
+    // Keep the previous value instead of evicting the entry right away
+    if (this.exceedsMaxSize(refetchedCache.size)) {
+      throw new Error(`Value of key '${key}' is larger than \`maxSizeBytes\``);
+    }
+
+    this.storeEntry(key, refetchedCache, SET_CAUSE.REFETCH);
+
+    // Cached misses and failures expire on their own schedule
+    if (this.activeExpiry || cached.negative || cached.error || negative) {
+      this.scheduleExpiry(key, refetchedCache);
+    }
+
+    this.emitEvent(EVENT.REFETCH, {
+      ...this.eventParam(key, refetchedCache),
+      ...(parent !== undefined && { parent }),
+    });
+
+    if (!negative) {
+      await this.writeRemote(key, refetchedCache);
+      await this.plugins.afterSet(key, value);
+      await this.plugins.afterRefetch(key, value);
+    }
+
+    if (broadcast) this.bus?.publish({ type: "refetch", key });
+
+    if (parent === undefined) await this.refetchDependents(key);
+
+    return true;
+  }
+
+  /**
+   * Refetches the entries depending on a key in topological order. Entries without a source function, or depending on
+   * an entry that was invalidated, are invalidated instead.
+   */
+  private async refetchDependents(parent: string): Promise<void> {
+    const invalidated = new Set<string>();
+
+    for (const key of this.dependentsOf(parent)) {
+      const cached = this.cache.get(key);
+      if (!cached) continue;
+
+      if (
+        typeof cached.sourceFn !== "function" ||
+        cached.dependsOn?.some((dependency) => invalidated.has(dependency))
+      ) {
+        this.invalidateDependent(key, cached, parent);
+        invalidated.add(key);
+        continue;
+      }
+
+      await this.refetchEntry(key, false, parent).catch((e) => {
+        /* Ignore as the event is already emitted inside the function */
+      });
+    }
+  }
+
+  private invalidateDependents(parent: string): void {
+    this.dependentsOf(parent).forEach((key) => {
+      const cached = this.cache.get(key);
+      if (cached) this.invalidateDependent(key, cached, parent);
+    });
+  }
+
+  private invalidateDependent(
+    key: string,
+    cached: CacheState<T>,
+    parent: string,
+  ): void {
+    if (!this.removeEntry(key, DELETE_CAUSE.INVALIDATE, parent)) return;
+
+    this.emitEvent(EVENT.INVALIDATE, {
+      ...this.eventParam(key, cached),
+      parent,
+    });
+  }
+
+  /**
+   * Returns the keys depending on a key, directly or not, each one after all the keys it depends on.
+   */
+  private dependentsOf(parent: string): string[] {
+    const pending = new Set<string>();
+    const queue = [parent];
+
+    while (queue.length) {
+      this.dependentIndex.get(queue.shift() as string)?.forEach((key) => {
+        if (key === parent || pending.has(key)) return;
+
+        pending.add(key);
+        queue.push(key);
+      });
+    }
+
+    const sorted: string[] = [];
+
+    while (pending.size) {
+      const ready = Array.from(pending).filter(
+        (key) =>
+          !this.cache
+            .get(key)
+            ?.dependsOn?.some((dependency) => pending.has(dependency)),
+      );
+
+      // Only reachable with a cycle restored by `load()`, settle the rest in any order
+      const next = ready.length ? ready : Array.from(pending);
+
+      next.forEach((key) => {
+        pending.delete(key);
+        sorted.push(key);
+      });
+    }
+
+    return sorted;
+  }
+
+  /**
+   * @throws {DependencyCycleError} If following `dependsOn` from the given keys leads back to `key`.
+   */
+  private assertAcyclic(key: string, dependsOn: string[]): void {
+    const visited = new Set<string>();
+
+    const visit = (path: string[]): void => {
+      const current = path[path.length - 1];
+
+      if (current === key) throw new DependencyCycleError([key, ...path]);
+      if (visited.has(current)) return;
+
+      visited.add(current);
+
+      this.cache
+        .get(current)
+        ?.dependsOn?.forEach((dependency) => visit([...path, dependency]));
+    };
+
+    dependsOn.forEach((dependency) => visit([dependency]));
+  }
+
+  /**
+   * Retrieves a value from the cache by key. If the cached value has expired, it will be removed from the cache unless
+   * `autoRefetch` is enabled with an associated `sourceFn`, in which case the value will be refetched automatically.
+   * With `staleWhileRevalidate`, the expired value is returned right away while the refetch runs in the background,
+   * until the `staleTtl` window has passed. If the key is not cached yet but a `set()` for it is fetching, its result is awaited.
+   *
+   * @async
+   * @param {string} key - The key of the cache entry to retrieve.
+   * @returns {Promise<T | undefined>} A promise that resolves to the cached value if found and not expired, or `undefined` if the key is not found or the value has expired.
+   * A miss cached for `negativeTtl` resolves to `undefined` too, use `lookup()` to tell them apart.
+   *
+   * @throws {SourceFnError} If the failure of the source function is cached for `errorTtl`, or refetching an expired entry failed.
+   */
+  async get(key: string): Promise<T | undefined> {
+    const result = await this.lookup(key);
+
+    if (result.status === LOOKUP_STATUS.ERROR) throw result.error;
+
+    return result.status === LOOKUP_STATUS.HIT ? result.value : undefined;
+  }
+
+  /**
+   * Retrieves a value like `get()`, but tells a key that is not cached apart from a cached miss or failure of its source function.
+   *
+   * @param {string} key - The key of the cache entry to retrieve.
+   * @returns {Promise<LookupResult<T>>} A promise that resolves to the `status` of the key, with the `value` on a `hit`
+   * and the cached `error` on an `error`.
+   *
+   * @throws {SourceFnError} If the entry expired and refetching it failed without an `errorTtl`.
+   */
+  async lookup(key: string): Promise<LookupResult<T>> {
+    if (!this.plugins.size) {
+      return this.readEntry(key);
+    }
+
+    const hit = await this.plugins.beforeGet(key);
+    if (hit) return { status: LOOKUP_STATUS.HIT, value: hit.value };
+
+    const result = await this.readEntry(key);
+    if (result.status === LOOKUP_STATUS.ERROR) return result;
+
+    const value = await this.plugins.afterGet(
+      key,
+      result.status === LOOKUP_STATUS.HIT ? result.value : undefined,
+    );
+
+    if (value !== undefined) return { status: LOOKUP_STATUS.HIT, value };
+
+    return result.status === LOOKUP_STATUS.HIT
+      ? { status: LOOKUP_STATUS.MISS }
+      : result;
+  }
+
+  private async readEntry(key: string): Promise<LookupResult<T>> {
+    if (!key) {
+      return { status: LOOKUP_STATUS.MISS };
+    }
+
+    const cached = this.cache.get(key);
+
+    if (!cached) {
+      const inflight = this.inflight.get(key);
+
+      if (inflight || !this.remote) {
+        this.emitEvent(EVENT.MISS, { key });
+
+        // A `set()` with a `sourceFn` may be about to store this key
+        const value = await inflight?.catch(() => undefined);
+
+        return value !== undefined
+          ? { status: LOOKUP_STATUS.HIT, value }
+          : { status: LOOKUP_STATUS.MISS };
+      }
+
+      const value = await this.readRemote(key);
+      const loaded = this.cache.get(key);
+
+      if (value === undefined) {
+        this.emitEvent(EVENT.MISS, { key });
+        return { status: LOOKUP_STATUS.MISS };
+      }
+
+      if (loaded) {
+        this.emitEvent(EVENT.HIT, this.eventParam(key, loaded));
+      }
+
+      return { status: LOOKUP_STATUS.HIT, value };
+    }
+
+    if (!this.isExpired(cached)) {
+      if (cached.negative || cached.error) {
+        this.emitEvent(EVENT.MISS, { key });
+        return this.resultOf(cached);
+      }
+
+      if (cached.sliding) this.slide(key, cached);
+
+      this.emitEvent(EVENT.HIT, this.eventParam(key, cached));
+      this.evictionPolicy.onAccess(key);
+      return this.resultOf(cached);
+    }
+
+    this.markExpired(key, cached);
+
+    if (typeof cached.sourceFn === "undefined" || !cached.autoRefetch) {
+      this.emitEvent(EVENT.MISS, { key });
+      this.removeEntry(key, DELETE_CAUSE.EXPIRE);
+      return { status: LOOKUP_STATUS.MISS };
+    }
+
+    if (
+      cached.staleWhileRevalidate &&
+      !cached.negative &&
+      !cached.error &&
+      this.isServableStale(cached)
+    ) {
+      this.emitEvent(EVENT.HIT, this.eventParam(key, cached));
+
+      this.refetchEntry(key, false).catch((e) => {
+        /* Ignore as the event is already emitted inside the function */
+      });
+
+      this.evictionPolicy.onAccess(key);
+      return this.resultOf(cached);
+    }
+
+    this.emitEvent(EVENT.MISS, { key });
+
+    try {
+      await this.refetchEntry(key, false);
+    } catch (e) {
+      // With an `errorTtl`, the failure is cached and returned below
+      if (!this.cache.get(key)?.error) throw e;
+    }
+
+    return this.resultOf(this.cache.get(key));
+  }
+
+  private resultOf(cached?: CacheState<T>): LookupResult<T> {
+    if (!cached) return { status: LOOKUP_STATUS.MISS };
+    if (cached.error)
+      return { status: LOOKUP_STATUS.ERROR, error: cached.error };
+    if (cached.negative) return { status: LOOKUP_STATUS.NEGATIVE };
+
+    return { status: LOOKUP_STATUS.HIT, value: cached.value };
+  }
+
+  /**
+   * Deletes a cache entry by its key and cancels its TTL timer. With a `remote` store, the key is deleted from it in the background.
+   * A fetch of the key in flight is aborted, so a pending `set()` rejects instead of storing the key again.
+   *
+   * @param {string} key - The key of the cache entry to delete. Must be a non-empty string.
+   *
+   * @returns {boolean} - Returns `true` if the cache entry was successfully deleted, `false` if no entry exists for the given key.
+   */
+  delete(key: string): boolean {
+    this.deleteRemote(key);
+    this.bus?.publish({ type: "delete", key });
+    this.abortFetch(key);
+
+    const cached = this.cache.get(key);
+    if (!cached || !this.removeEntry(key, DELETE_CAUSE.DELETE)) return false;
+
+    this.plugins.onDelete(key, cached.value);
+
+    return true;
+  }
+
+  /**
+   * Deletes all cache entries, cancels their TTL timers and aborts the fetches in flight.
+   * Emits a single `flush` event instead of a `delete` event per entry.
+   *
+   * @returns {void}
+   */
+  flush(): void {
+    this.flushEntries();
+    this.bus?.publish({ type: "flush" });
+  }
+
+  private flushEntries(): void {
+    const entries = this.cache.size;
+
+    this.clearEntries();
+    this.emitter.emit(EVENT.FLUSH, { entries });
+  }
+
+  private clearEntries(): void {
+    Array.from(this.controllers.keys()).forEach((key) => this.abortFetch(key));
+    this.scheduler.clear();
+    this.cache.clear();
+    this.tagIndex.clear();
+    this.dependentIndex.clear();
+    this.evictionPolicy.clear();
+    this.breakers.clear();
+    this.totalSize = 0;
+  }
+
+  /**
+   * Deletes all cache entries, stops the TTL and autosave timers and removes all event listeners,
+   * so the instance no longer keeps the process busy. The instance can still be used afterwards.
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    // Only release this instance, other instances keep their entries
+    this.clearEntries();
+    this.stopAutosave();
+    this.streams.forEach((stream) => stream.close());
+    this.emitter.removeAllListeners();
+
+    this.bus?.close();
+    this.bus = undefined;
+  }
+
+  /**
+   * Returns a handle that prefixes every key with `<name>:`, so several parts of an application can share
+   * the cache without key collisions. Its `flush()` and `clearEventListeners()` only touch the namespace.
+   * Calling it again with the same name returns the same handle.
+   *
+   * @param {string} name - The name of the namespace.
+   *
+   * @returns {CacheNamespace<T>} - The namespaced handle with the same API as the cache.
+   *
+   * @throws {Error} If the name is empty.
+   */
+  namespace(name: string): CacheNamespace<T> {
+    if (!name) throw Error("Empty namespace");
+
+    return this.namespaceOf(`${name}:`);
+  }
+
+  private namespaceOf(prefix: string): CacheNamespace<T> {
+    let namespace = this.namespaces.get(prefix);
+
+    if (!namespace) {
+      namespace = new CacheNamespace(this, prefix, {
+        emitter: this.emitter,
+        keys: () => this.cache.keys(),
+        abortFetches: (prefix) =>
+          Array.from(this.controllers.keys())
+            .filter((key) => key.startsWith(prefix))
+            .forEach((key) => this.abortFetch(key)),
+        namespace: (nestedPrefix) => this.namespaceOf(nestedPrefix),
+      });
+
+      this.namespaces.set(prefix, namespace);
+    }
+
+    return namespace;
+  }
+
+  /**
+   * Deletes every entry tagged with the given tag and emits an `invalidate` event for each of them.
+   *
+   * @param {string} tag - The tag passed to `set()`.
+   *
+   * @returns {number} - The number of deleted entries.
+   *
+   * @throws {Error} If the tag is empty.
+   */
+  invalidateByTag(tag: string): number {
+    if (!tag) throw Error("Empty tag");
+
+    this.bus?.publish({ type: "tag", tag });
+
+    return this.invalidateTag(tag, true);
+  }
+
+  /**
+   * Deletes every entry whose key matches the pattern and emits an `invalidate` event for each of them.
+   *
+   * @param {KeyPattern} pattern - A glob such as `user:42:*` (`*` matches any characters, `?` a single one) or a regular expression.
+   *
+   * @returns {number} - The number of deleted entries.
+   *
+   * @throws {Error} If the pattern is an empty string.
+   */
+  deleteByPattern(pattern: KeyPattern): number {
+    const regExp = toKeyRegExp(pattern);
+
+    this.bus?.publish({
+      type: "pattern",
+      pattern:
+        typeof pattern === "string"
+          ? pattern
+          : { source: pattern.source, flags: pattern.flags },
+    });
+
+    return this.invalidatePattern(pattern, regExp, true);
+  }
+
+  /**
+   * Refetches every entry tagged with the given tag that has a source function. Failures emit `refetch-failure`
+   * events and don't stop the other refetches.
+   *
+   * @param {string} tag - The tag passed to `set()`.
+   *
+   * @returns {Promise<number>} - The number of successfully refetched entries.
+   *
+   * @throws {Error} If the tag is empty.
+   */
+  async refetchByTag(tag: string): Promise<number> {
+    if (!tag) throw Error("Empty tag");
+
+    const keys = Array.from(this.tagIndex.get(tag) ?? []);
+
+    const results = await Promise.allSettled(
+      keys.map((key) => this.refetch(key)),
+    );
+
+    return results.filter(
+      (result) => result.status === "fulfilled" && result.value,
+    ).length;
+  }
+
+  private invalidateTag(tag: string, propagate: boolean): number {
+    const keys = Array.from(this.tagIndex.get(tag) ?? []);
+
+    return keys.filter((key) => this.invalidate(key, { tag }, propagate))
+      .length;
+  }
+
+  private invalidatePattern(
+    pattern: KeyPattern,
+    regExp: RegExp,
+    propagate: boolean,
+  ): number {
+    const keys = Array.from(this.cache.keys()).filter((key) =>
+      regExp.test(key),
+    );
+
+    return keys.filter((key) =>
+      this.invalidate(key, { pattern: String(pattern) }, propagate),
+    ).length;
+  }
+
+  private invalidate(
+    key: string,
+    cause: { tag?: string; pattern?: string },
+    propagate: boolean,
+  ): boolean {
+    const cached = this.cache.get(key);
+    if (!cached || !this.removeEntry(key, DELETE_CAUSE.INVALIDATE)) {
+      return false;
+    }
+
+    if (propagate) this.deleteRemote(key);
+
+    this.emitEvent(EVENT.INVALIDATE, {
+      ...this.eventParam(key, cached),
+      ...cause,
+    });
+
+    return true;
+  }
+
+  /**
+   * Returns hit, miss, expiry, refetch, refetch failure and eviction counts, source function latency percentiles,
+   * the number of entries and their approximate size. Stats cover all keys unless a `key` or `prefix` is given.
+   *
+   * @param {Object} [filter] - Narrows the stats down to some keys.
+   * @param {string} [filter.key] - Only count operations on this key.
+   * @param {string} [filter.prefix] - Only count operations on keys starting with this prefix.
+   *
+   * @returns {CacheStats} - The statistics collected since the instance was created or `resetStats()` was called.
+   */
+  stats(filter?: { key?: string; prefix?: string }): CacheStats {
+    let entries = 0;
+    let approximateBytes = 0;
+
+    if (filter?.key !== undefined || filter?.prefix !== undefined) {
+      this.cache.forEach((cached, key) => {
+        const matches =
+          filter.key !== undefined
+            ? key === filter.key
+            : key.startsWith(filter.prefix as string);
+
+        if (matches) {
+          entries += 1;
+          approximateBytes += cached.size;
+        }
+      });
+    } else {
+      entries = this.cache.size;
+      approximateBytes = this.totalSize;
+    }
+
+    return {
+      ...this.statsCollector.counters(filter),
+      entries,
+      approximateBytes,
+    };
+  }
+
+  /**
+   * Resets all counters and latency samples returned by `stats()`.
+   *
+   * @returns {void}
+   */
+  resetStats(): void {
+    this.statsCollector.reset();
+  }
+
+  /**
+   * Returns the statistics of all keys in the Prometheus text exposition format.
+   *
+   * @param {Object} [options] - Formatting options.
+   * @param {string} [options.prefix] - The prefix of every metric name. Defaults to `run_cache`.
+   * @param {Record<string, string>} [options.labels] - Labels added to every sample.
+   *
+   * @returns {string} - The metrics, ready to be served from a `/metrics` endpoint.
+   */
+  prometheusMetrics(options?: {
+    prefix?: string;
+    labels?: Record<string, string>;
+  }): string {
+    return toPrometheus(this.stats(), options);
+  }
+
+  /**
+   * Checks if a cache entry exists for the given key and whether it has expired.
+   *
+   * @param {string} key - The key of the cache entry to check.
+   * @returns {Promise<boolean>} - A promise that resolves to `true` if the cache entry exists and is not expired, otherwise `false`.
+   *
+   * This method retrieves the cache entry by key and checks if it is still valid.
+   * If the cache entry has expired, an "expire" event is emitted and the method returns `false`.
+   */
+  async has(key: string): Promise<boolean> {
+    const cached = this.cache.get(key);
+
+    if (!cached) {
+      return this.remote ? (await this.readRemote(key)) !== undefined : false;
+    }
+
+    if (this.isExpired(cached)) {
+      this.markExpired(key, cached);
+
+      return false;
+    }
+
+    if (cached.negative || cached.error) return false;
+
+    if (cached.sliding) this.slide(key, cached);
+
+    return true;
+  }
+
+  /**
+   * Restarts the TTL of an entry as if it was just set, without changing its value. The `maxAge` keeps counting from the last write.
+   *
+   * @param {string} key - The key of the cache entry.
+   * @param {number} [ttl] - A new time-to-live in milliseconds. Defaults to the current `ttl` of the entry.
+   *
+   * @returns {boolean} - `true` if the entry was touched, `false` if it is not cached or has expired.
+   *
+   * @throws {Error} If `ttl` is not a positive number.
+   */
+  touch(key: string, ttl?: number): boolean {
+    if (ttl !== undefined && !(ttl > 0)) {
+      throw new Error("Value `ttl` must be a positive number");
+    }
+
+    const cached = this.cache.get(key);
+    if (!cached || this.isExpired(cached)) return false;
+
+    if (ttl !== undefined) cached.ttl = ttl;
+
+    this.slide(key, cached);
+
+    return true;
+  }
+
+  /**
+   * Sets the TTL of an entry, counting from now. Entries without a TTL start expiring.
+   *
+   * @param {string} key - The key of the cache entry.
+   * @param {number} ttl - The time-to-live in milliseconds.
+   *
+   * @returns {boolean} - `true` if the TTL was set, `false` if the entry is not cached or has expired.
+   *
+   * @throws {Error} If `ttl` is not a positive number.
+   */
+  expire(key: string, ttl: number): boolean {
+    if (!(ttl > 0)) {
+      throw new Error("Value `ttl` must be a positive number");
+    }
+
+    return this.touch(key, ttl);
+  }
+
+  /**
+   * Removes the `ttl` and `maxAge` of an entry so it no longer expires, and cancels its TTL timer.
+   * Entries with `autoRefetch` are no longer refetched.
+   *
+   * @param {string} key - The key of the cache entry.
+   *
+   * @returns {boolean} - `true` if the entry was persisted, `false` if it is not cached or has expired.
+   */
+  persist(key: string): boolean {
+    const cached = this.cache.get(key);
+    if (!cached || this.isExpired(cached)) return false;
+
+    cached.ttl = undefined;
+    cached.maxAge = undefined;
+    cached.sliding = undefined;
+    cached.autoRefetch = undefined;
+    cached.staleWhileRevalidate = undefined;
+
+    this.scheduleExpiry(key, cached);
+
+    return true;
+  }
+
+  /**
+   * Returns the keys of the entries that have not expired, without looking at the `remote` store.
+   *
+   * @param {KeyPattern} [pattern] - Only return keys matching this glob or regular expression.
+   *
+   * @returns {string[]} - The keys, in insertion order.
+   *
+   * @throws {Error} If the pattern is an empty string.
+   */
+  keys(pattern?: KeyPattern): string[] {
+    const regExp = pattern !== undefined ? toKeyRegExp(pattern) : undefined;
+    const keys: string[] = [];
+
+    this.cache.forEach((cached, key) => {
+      if (this.isExpired(cached) || (regExp && !regExp.test(key))) return;
+
+      keys.push(key);
+    });
+
+    return keys;
+  }
+
+  /**
+   * Iterates over the keys and values of the entries that have not expired, without looking at the `remote` store.
+   * Values are returned as they are stored, without running the `afterGet` hooks of plugins, and reading them
+   * counts as neither a hit nor an access. Cached misses and failures are skipped.
+   *
+   * @returns {IterableIterator<[string, T]>} - The key and value of each entry, in insertion order.
+   */
+  *entries(): IterableIterator<[string, T]> {
+    for (const [key, cached] of this.cache) {
+      if (!this.isExpired(cached) && !cached.negative && !cached.error) {
+        yield [key, cached.value];
+      }
+    }
+  }
+
+  /**
+   * The number of entries held in memory, including expired entries that were not removed yet.
+   */
+  get size(): number {
+    return this.cache.size;
+  }
+
+  /**
+   * Returns the time left until an entry expires.
+   *
+   * @param {string} key - The key of the cache entry.
+   *
+   * @returns {number | undefined} - The remaining time in milliseconds, `Infinity` if the entry never expires,
+   * or `undefined` if it is not cached or has expired.
+   */
+  ttl(key: string): number | undefined {
+    const cached = this.cache.get(key);
+    if (!cached || this.isExpired(cached)) return undefined;
+
+    const expiresAt = this.expiresAt(cached);
+
+    return expiresAt !== undefined ? expiresAt - Date.now() : Infinity;
+  }
+
+  /**
+   * Returns the metadata of an entry. Unlike `get()` and `has()`, expired entries are reported as they are instead of
+   * being removed, refetched or emitting events.
+   *
+   * @param {string} key - The key of the cache entry.
+   *
+   * @returns {EntryInfo | undefined} - The metadata, or `undefined` if the key is not cached.
+   */
+  inspect(key: string): EntryInfo | undefined {
+    const cached = this.cache.get(key);
+    if (!cached) return undefined;
+
+    return {
+      key,
+      createAt: cached.createAt,
+      updateAt: cached.updateAt,
+      ttl: cached.ttl,
+      sliding: cached.sliding,
+      maxAge: cached.maxAge,
+      expiresAt: this.expiresAt(cached),
+      expired: this.isExpired(cached),
+      autoRefetch: cached.autoRefetch,
+      staleWhileRevalidate: cached.staleWhileRevalidate,
+      staleTtl: cached.staleTtl,
+      tags: cached.tags && [...cached.tags],
+      dependsOn: cached.dependsOn && [...cached.dependsOn],
+      negative: !!cached.negative,
+      error: cached.error,
+      hasSourceFn: typeof cached.sourceFn === "function",
+      fetching: this.inflight.has(key),
+      size: cached.size,
+    };
+  }
+
+  private slide(key: string, cached: CacheState<T>): void {
+    cached.touchAt = Date.now();
+
+    this.scheduleExpiry(key, cached);
+  }
+
+  /**
+   * Sets the storage adapter used by `save()` and `load()`, replacing any previous one.
+   *
+   * @param {StorageAdapter} [storage] - The adapter to persist snapshots with. Omit it to disable persistence.
+   * @param {number} [autosaveInterval] - Saves a snapshot every given number of milliseconds. The timer does not keep the process alive.
+   *
+   * @throws {Error} If `autosaveInterval` is not a positive number.
+   */
+  setStorage(storage?: StorageAdapter, autosaveInterval?: number): void {
+    if (autosaveInterval !== undefined && !(autosaveInterval > 0)) {
+      throw new Error("Value `autosaveInterval` must be a positive number");
+    }
+
+    this.stopAutosave();
+
+    this.storage = storage;
+
+    if (storage && autosaveInterval !== undefined) {
+      this.autosave = setInterval(() => {
+        this.save().catch((e) => {
+          /* Ignore, the next run will try again */
+        });
+      }, autosaveInterval);
+
+      this.autosave.unref?.();
+    }
+  }
+
+  private stopAutosave(): void {
+    if (this.autosave) {
+      clearInterval(this.autosave);
+      this.autosave = undefined;
+    }
+  }
+
+  /**
+   * Saves a snapshot of all entries that have not expired to the storage adapter, except cached misses and failures.
+   * Source functions can't be persisted, use `registerSourceFn()` to attach them again after `load()`.
+   *
+   * @returns {Promise<number>} - The number of saved entries.
+   *
+   * @throws {Error} If no storage adapter is configured.
+   */
+  async save(): Promise<number> {
+    if (!this.storage) {
+      throw new Error("No `storage` adapter configured");
+    }
+
+    const entries: SnapshotEntry[] = [];
+
+    this.cache.forEach((cached, key) => {
+      if (this.isExpired(cached) || cached.negative || cached.error) return;
+
+      entries.push({
+        key,
+        value: cached.value,
+        createAt: cached.createAt,
+        updateAt: cached.updateAt,
+        ttl: cached.ttl,
+        sliding: cached.sliding,
+        maxAge: cached.maxAge,
+        touchAt: cached.touchAt,
+        autoRefetch: cached.autoRefetch,
+        staleWhileRevalidate: cached.staleWhileRevalidate,
+        staleTtl: cached.staleTtl,
+        tags: cached.tags,
+        dependsOn: cached.dependsOn,
+        hasSourceFn: typeof cached.sourceFn === "function",
+      });
+    });
+
+    const snapshot: Snapshot = { version: 1, savedAt: Date.now(), entries };
+
+    await this.storage.save(snapshot);
+
+    return entries.length;
+  }
+
+  /**
+   * Restores entries from the storage adapter. TTLs keep counting from the `updateAt` time of each entry,
+   * so entries that expired in the meantime are skipped. Entries that had a `sourceFn` get the function
+   * registered for their key with `registerSourceFn()`, if any.
+   *
+   * @returns {Promise<number>} - The number of restored entries.
+   *
+   * @throws {Error} If no storage adapter is configured.
+   */
+  async load(): Promise<number> {
+    if (!this.storage) {
+      throw new Error("No `storage` adapter configured");
+    }
+
+    const snapshot = await this.storage.load();
+    if (!snapshot) return 0;
+
+    let restored = 0;
+
+    snapshot.entries.forEach((entry) => {
+      const sourceFn = entry.hasSourceFn
+        ? this.sourceFns.get(entry.key)
+        : undefined;
+
+      const expiresAt = this.expiresAt(entry);
+
+      if (expiresAt !== undefined && expiresAt < Date.now()) return;
+
+      const size = this.sizeOf(entry.value);
+      if (this.exceedsMaxSize(size)) return;
+
+      // Restored entries expire earlier than a full `ttl`, then every `ttl` like any other entry
+      this.scheduleExpiry(entry.key, entry);
+
+      this.storeEntry(
+        entry.key,
+        {
+          value: entry.value as T,
+          createAt: entry.createAt,
+          updateAt: entry.updateAt,
+          ttl: entry.ttl,
+          sliding: entry.sliding,
+          maxAge: entry.maxAge,
+          touchAt: entry.touchAt,
+          autoRefetch: entry.autoRefetch,
+          staleWhileRevalidate: entry.staleWhileRevalidate,
+          staleTtl: entry.staleTtl,
+          tags: entry.tags,
+          dependsOn: entry.dependsOn,
+          sourceFn,
+          size,
+        },
+        SET_CAUSE.LOAD,
+      );
+
+      restored += 1;
+    });
+
+    return restored;
+  }
+
+  /**
+   * Registers the source function of a key so entries restored by `load()` can be refetched again.
+   * If the key is already cached without a source function, the function is attached right away.
+   *
+   * @param {string} key - The key of the entry.
+   * @param {SourceFn<T>} sourceFn - The function that produces the value of the key.
+   *
+   * @throws {Error} If the key is empty.
+   */
+  registerSourceFn(key: string, sourceFn: SourceFn<T>): void {
+    if (!key) throw Error("Empty key");
+
+    this.sourceFns.set(key, sourceFn);
+
+    const cached = this.cache.get(key);
+    if (cached && !cached.sourceFn) {
+      cached.sourceFn = sourceFn;
+    }
+  }
+
+  /**
+   * Sets the store used as a second tier behind the in-memory entries, replacing any previous one.
+   *
+   * On a local miss, `get()`, `has()`, `getOrSet()` and `mget()` look the key up in the remote store and keep a local copy
+   * until its `ttl` runs out. `set()` and `refetch()` write through to the remote store, `delete()` and the bulk invalidations
+   * delete from it in the background. Evictions and `flush()` only touch the local entries.
+   * Reads treat a store that fails as a miss, only `set()` and `refetch()` reject when writing to it fails.
+   * Source functions are not shared, use `registerSourceFn()` so local copies can be refetched.
+   *
+   * @param {RemoteStore} [remote] - The shared store. Omit it to only use the in-memory entries.
+   */
+  setRemote(remote?: RemoteStore): void {
+    this.remote = remote;
+    this.remoteLoads.clear();
+  }
+
+  /**
+   * Adds a plugin whose hooks run around `get()`, `set()`, refetches and `delete()`. Hooks can transform values,
+   * veto writes and refetches, or answer reads without looking at the cache. See {@link RunCachePlugin}.
+   *
+   * Values restored by `load()` or read from the `remote` store were written through the hooks already and are stored as they are.
+   *
+   * @param {RunCachePlugin<T>} plugin - The plugin to add.
+   * @returns {Function} A function that removes the plugin.
+   */
+  use(plugin: RunCachePlugin<T>): () => void {
+    return this.plugins.add(plugin);
+  }
+
+  /**
+   * Sets the transport that broadcasts invalidations to other instances, replacing any previous one.
+   *
+   * `delete()`, `flush()`, `invalidateByTag()`, `deleteByPattern()` and successful `refetch()` calls are applied by every
+   * instance subscribed to the transport. On a `refetch()`, other instances refetch their own copy, or delete it when it has
+   * no source function. Refetches triggered by `autoRefetch`, evictions and `dispose()` are not broadcast.
+   *
+   * @param {InvalidationTransport} [transport] - The transport. Omit it to stop broadcasting and receiving invalidations.
+   */
+  setInvalidationTransport(transport?: InvalidationTransport): void {
+    this.bus?.close();
+
+    this.bus = transport
+      ? new InvalidationBus(transport, (message) =>
+          this.applyInvalidation(message),
+        )
+      : undefined;
+  }
+
+  private applyInvalidation(message: InvalidationMessage): void {
+    switch (message.type) {
+      case "delete":
+        this.abortFetch(message.key);
+        this.removeEntry(message.key, DELETE_CAUSE.DELETE);
+        return;
+      case "refetch":
+        if (!this.cache.get(message.key)?.sourceFn) {
+          this.removeEntry(message.key, DELETE_CAUSE.INVALIDATE);
+          return;
+        }
+
+        this.refetchEntry(message.key, false).catch((e) => {
+          /* Ignore as the event is already emitted inside the function */
+        });
+        return;
+      case "tag":
+        this.invalidateTag(message.tag, false);
+        return;
+      case "pattern": {
+        const pattern =
+          typeof message.pattern === "string"
+            ? message.pattern
+            : new RegExp(message.pattern.source, message.pattern.flags);
+
+        this.invalidatePattern(pattern, toKeyRegExp(pattern), false);
+        return;
+      }
+      case "flush":
+        this.flushEntries();
+    }
+  }
+
+  private readRemote(key: string): Promise<T | undefined> {
+    // Concurrent reads of the same key share a single request
+    let load = this.remoteLoads.get(key);
+
+    if (!load) {
+      const remote = this.remote as RemoteStore;
+
+      load = this.loadRemote(remote, key).finally(() => {
+        if (this.remoteLoads.get(key) === load) {
+          this.remoteLoads.delete(key);
+        }
+      });
+
+      this.remoteLoads.set(key, load);
+    }
+
+    return load;
+  }
+
+  private async loadRemote(
+    remote: RemoteStore,
+    key: string,
+  ): Promise<T | undefined> {
+    // An unreachable store is a miss, like `deleteRemote()` ignores its failures
+    const entry = await remote.get(key).catch(() => undefined);
+
+    // A value set locally while loading is at least as recent
+    const cached = this.cache.get(key);
+    if (cached) return cached.value;
+
+    if (
+      !entry ||
+      (entry.ttl !== undefined && entry.updateAt + entry.ttl < Date.now())
+    ) {
+      return undefined;
+    }
+
+    const loaded: CacheState<T> = {
+      value: entry.value as T,
+      createAt: entry.createAt,
+      updateAt: entry.updateAt,
+      ttl: entry.ttl,
+      tags: entry.tags,
+      sourceFn: this.sourceFns.get(key),
+      size: this.sizeOf(entry.value),
+    };
+
+    // Serve a value too large for the local cache without caching it
+    if (this.exceedsMaxSize(loaded.size)) return loaded.value;
+
+    this.scheduleExpiry(key, loaded);
+    this.storeEntry(key, loaded, SET_CAUSE.REMOTE);
+
+    return loaded.value;
+  }
+
+  private async writeRemote(key: string, cached: CacheState<T>): Promise<void> {
+    await this.remote?.set(key, {
+      value: cached.value,
+      createAt: cached.createAt,
+      updateAt: cached.updateAt,
+      ttl: cached.ttl,
+      tags: cached.tags,
+    });
+  }
+
+  private deleteRemote(key: string): void {
+    this.remote?.delete(key).catch((e) => {
+      /* Ignore, other instances keep their local copy until its `ttl` runs out anyway */
+    });
+  }
+
+  private scheduleExpiry(
+    key: string,
+    entry: Pick<
+      CacheState<T>,
+      | "ttl"
+      | "maxAge"
+      | "sliding"
+      | "updateAt"
+      | "touchAt"
+      | "negative"
+      | "error"
+    >,
+  ): void {
+    const expiresAt = this.expiresAt(entry);
+
+    if (expiresAt === undefined) {
+      this.scheduler.cancel(key);
+      return;
+    }
+
+    // With `activeExpiry`, `sliding` or a cached miss or error, fire on the first millisecond `isExpired()` agrees
+    // the entry has expired
+    const once =
+      this.activeExpiry || entry.sliding || entry.negative || entry.error;
+
+    this.scheduler.schedule(key, expiresAt + (once ? 1 : 0));
+  }
+
+  /**
+   * Emits `expire` for an expired entry. With `activeExpiry` the event is emitted once per value,
+   * and entries that can't be refetched are removed right away.
+   */
+  private markExpired(key: string, cached: CacheState<T>): void {
+    if (this.activeExpiry) {
+      if (cached.expired) return;
+
+      cached.expired = true;
+    }
+
+    this.emitEvent(EVENT.EXPIRE, this.eventParam(key, cached));
+
+    if (typeof cached.sourceFn === "function" && cached.autoRefetch) return;
+
+    if (this.activeExpiry) {
+      this.removeEntry(key, DELETE_CAUSE.EXPIRE);
+    } else {
+      // The entry itself is removed when it is read
+      this.invalidateDependents(key);
+    }
+  }
+
+  private onTimer(key: string, at: number): void {
+    const cached = this.cache.get(key);
+    if (!cached || this.expiresAt(cached) === undefined) return;
+
+    if (cached.sliding && !this.isExpired(cached)) {
+      // Read since the timer was set
+      this.scheduleExpiry(key, cached);
+      return;
+    }
+
+    // Cached misses and errors have no `ttl` to keep firing at, they expire once and are removed
+    const transient = cached.negative || !!cached.error;
+
+    if (!this.activeExpiry && !transient) {
+      // Keep firing every `ttl` from the time the entry was set, even if it was refetched in between
+      this.scheduler.schedule(
+        key,
+        at + Math.max(cached.ttl || cached.maxAge || 0, 1),
+      );
+    } else if (!this.isExpired(cached)) {
+      this.scheduleExpiry(key, cached);
+      return;
+    }
+
+    this.markExpired(key, cached);
+
+    if (typeof cached.sourceFn === "function" && cached.autoRefetch) {
+      this.refetchEntry(key, false).catch((e) => {
+        /* Ignore as the event is already emitted inside the function */
+      });
+    } else if (transient && !this.activeExpiry) {
+      this.removeEntry(key, DELETE_CAUSE.EXPIRE);
+    }
+  }
+
+  private fetchSource(
+    key: string,
+    sourceFn: SourceFn<T>,
+    { retry: retryPolicy, timeout, previous }: FetchOptions<T> = {},
+  ): Promise<T> {
+    const inflight = this.inflight.get(key);
+    if (inflight) return inflight;
+
+    const breaker = this.breakers.get(key);
+    const controller = new AbortController();
+    const startedAt = Date.now();
+
+    let promise: Promise<T>;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    if (breaker && !breaker.allow()) {
+      promise = Promise.reject(new CircuitOpenError());
+    } else {
+      const { signal } = controller;
+      const run = (previousValue?: T) => {
+        const call = (attempt: number, attemptSignal: AbortSignal) =>
+          sourceFn({ key, signal: attemptSignal, previousValue, attempt });
+
+        // A source ignoring its signal still settles the fetch once aborted, so the key can be fetched again
+        return retryPolicy
+          ? retry(call, retryPolicy, signal)
+          : callAbortable((attemptSignal) => call(1, attemptSignal), signal);
+      };
+
+      if (timeout !== undefined) {
+        // Unlike `retry.timeout`, bounds all attempts together
+        timer = setTimeout(
+          () => controller.abort(new TimeoutError(timeout)),
+          timeout,
+        );
+      }
+
+      // Source functions get the previous value as `get()` would return it, not as plugins stored it
+      promise =
+        this.plugins.size && previous !== undefined
+          ? callAbortable(() => this.plugins.afterGet(key, previous), signal)
+              .catch(() => undefined)
+              .then((previousValue) => {
+                if (signal.aborted) throw signal.reason;
+
+                return run(previousValue);
+              })
+          : run(previous);
+
+      promise.then(
+        () => breaker?.recordSuccess(),
+        () => breaker?.recordFailure(),
+      );
+    }
+
+    const settle = () => {
+      clearTimeout(timer);
+      this.statsCollector.recordLatency(key, Date.now() - startedAt);
+
+      if (this.inflight.get(key) === promise) {
+        this.inflight.delete(key);
+        this.controllers.delete(key);
+      }
+    };
+
+    promise.then(settle, settle);
+    this.inflight.set(key, promise);
+    this.controllers.set(key, controller);
+
+    return promise;
+  }
+
+  private abortFetch(key: string): void {
+    const controller = this.controllers.get(key);
+    if (!controller) return;
+
+    // Forget the fetch right away, so a `set()` right after doesn't join it
+    this.inflight.delete(key);
+    this.controllers.delete(key);
+
+    controller.abort(new AbortError(key));
+  }
+
+  private storeEntry(key: string, entry: CacheState<T>, cause: SetCause): void {
+    const existing = this.cache.get(key);
+
+    this.totalSize += entry.size - (existing?.size ?? 0);
+    this.cache.set(key, entry);
+
+    if (existing?.tags !== entry.tags) {
+      this.unindex(this.tagIndex, key, existing?.tags);
+      this.index(this.tagIndex, key, entry.tags);
+    }
+
+    if (existing?.dependsOn !== entry.dependsOn) {
+      this.unindex(this.dependentIndex, key, existing?.dependsOn);
+      this.index(this.dependentIndex, key, entry.dependsOn);
+    }
+
+    this.evictionPolicy.onSet(key);
+
+    this.emitEvent(EVENT.SET, {
+      ...this.eventParam(key, entry),
+      cause,
+      ...(existing && { previousValue: existing.value }),
+    });
+
+    this.enforceLimits(key);
+  }
+
+  /**
+   * @param {string} [parent] - The key whose change removes the entry through `dependsOn`. Its dependents are handled already.
+   */
+  private removeEntry(
+    key: string,
+    cause: DeleteCause,
+    parent?: string,
+  ): boolean {
+    const cache = this.cache.get(key);
+    if (!cache) return false;
+
+    this.scheduler.cancel(key);
+
+    this.totalSize -= cache.size;
+    this.unindex(this.tagIndex, key, cache.tags);
+    this.unindex(this.dependentIndex, key, cache.dependsOn);
+    this.evictionPolicy.onDelete(key);
+    this.breakers.delete(key);
+    this.cache.delete(key);
+
+    this.emitEvent(EVENT.DELETE, {
+      ...this.eventParam(key, cache),
+      cause,
+      ...(parent !== undefined && { parent }),
+    });
+
+    if (parent === undefined) this.invalidateDependents(key);
+
+    return true;
+  }
+
+  private index(
+    index: Map<string, Set<string>>,
+    key: string,
+    names?: string[],
+  ): void {
+    names?.forEach((name) => {
+      let keys = index.get(name);
+
+      if (!keys) {
+        keys = new Set<string>();
+        index.set(name, keys);
+      }
+
+      keys.add(key);
+    });
+  }
+
+  private unindex(
+    index: Map<string, Set<string>>,
+    key: string,
+    names?: string[],
+  ): void {
+    names?.forEach((name) => {
+      const keys = index.get(name);
+      if (!keys) return;
+
+      keys.delete(key);
+
+      if (!keys.size) {
+        index.delete(name);
+      }
+    });
+  }
+
+  /**
+   * @param {string} written - The key that was just written, which is never evicted to make room for itself.
+   */
+  private enforceLimits(written: string): void {
+    while (true) {
+      let reason: EvictionReason;
+
+      if (this.maxEntries !== undefined && this.cache.size > this.maxEntries) {
+        reason = EVICTION_REASON.MAX_ENTRIES;
+      } else if (
+        this.maxSizeBytes !== undefined &&
+        this.totalSize > this.maxSizeBytes
+      ) {
+        reason = EVICTION_REASON.MAX_SIZE;
+      } else {
+        return;
+      }
+
+      const victim = this.evictionPolicy.victim(written);
+      const cached = victim !== undefined ? this.cache.get(victim) : undefined;
+
+      if (victim === undefined || victim === written || !cached) return;
+
+      this.removeEntry(victim, DELETE_CAUSE.EVICT);
+
+      this.emitEvent(EVENT.EVICT, {
+        ...this.eventParam(victim, cached),
+        reason,
+      });
+    }
+  }
+
+  private exceedsMaxSize(size: number): boolean {
+    return this.maxSizeBytes !== undefined && size > this.maxSizeBytes;
+  }
+
+  private eventParam(key: string, cached: CacheState<T>): EventParam<T> {
+    return {
+      key,
+      value: cached.value,
+      ttl: cached.ttl,
+      createAt: cached.createAt,
+      updateAt: cached.updateAt,
+    };
+  }
+
+  private emitEvent<E extends Exclude<EventName, typeof EVENT.FLUSH>>(
+    event: E,
+    params: EventParamMap<T>[E],
+  ) {
+    const metric = EVENT_METRICS[event];
+    if (metric) {
+      this.statsCollector.record(params.key, metric);
+    }
+
+    [event, `${event}-${params.key}`].forEach((eventId) => {
+      this.emitter.emit(eventId, params);
+    });
+  }
+
+  /**
+   * Registers a listener for any event, e.g. `set`, `delete`, `hit` or `miss`.
+   *
+   * @param {EventName} event - The event to listen to.
+   * @param {EventListener<T>} listener - The function to call with the payload of the event.
+   * @param {Object} [options] - Options for the listener.
+   * @param {KeyPattern} [options.key] - Only call the listener for this key, or for keys matching a glob such as `user:*` or a regular expression.
+   *
+   * @returns {Function} A function that removes the listener.
+   *
+   * @throws {Error} If the `key` is empty, or given for the `flush` event which is not tied to a key.
+   */
+  on<E extends EventName>(
+    event: E,
+    listener: EventListener<T, E>,
+    options?: { key?: KeyPattern },
+  ): () => void {
+    return this.listen(event, listener, options?.key, false);
+  }
+
+  /**
+   * Registers a listener that is removed after its first call. See `on()`.
+   *
+   * @returns {Function} A function that removes the listener before it was called.
+   */
+  once<E extends EventName>(
+    event: E,
+    listener: EventListener<T, E>,
+    options?: { key?: KeyPattern },
+  ): () => void {
+    return this.listen(event, listener, options?.key, true);
+  }
+
+  /**
+   * Removes a listener registered with `on()`, `once()` or one of the `on*` methods.
+   *
+   * @param {EventName} event - The event the listener was registered for.
+   * @param {EventListener<T>} listener - The listener to remove.
+   * @param {Object} [options] - Must have the same `key` the listener was registered with.
+   */
+  off<E extends EventName>(
+    event: E,
+    listener: EventListener<T, E>,
+    options?: { key?: KeyPattern },
+  ): void {
+    const key = options?.key;
+    const eventId = this.eventIdOf(event, key);
+    const pattern = key !== undefined && isWildcard(key) ? key : undefined;
+
+    // Wildcard listeners share the event id with the unscoped ones, tell them apart by their pattern. Like
+    // `EventEmitter#off()`, remove the last one registered.
+    const registered = (this.emitter.rawListeners(eventId) as Wrapper[])
+      .reverse()
+      .find(
+        (other) =>
+          (other === listener || other.listener === listener) &&
+          isSamePattern(other.pattern, pattern),
+      );
+
+    if (registered) this.emitter.off(eventId, registered);
+  }
+
+  /**
+   * Returns an async iterator of the events of the cache, to consume changes with `for await`.
+   *
+   * Records wait in a buffer of `bufferSize` records until they are consumed. Once it is full, the stream ends with a
+   * `WatchOverflowError` after the buffered records, or discards the oldest record with `overflow: "drop-oldest"`.
+   *
+   * @param {WatchOptions} [options] - Which events to record and how to buffer them.
+   * @param {string[]} [options.keys] - Only record events of these keys.
+   * @param {KeyPattern} [options.pattern] - Only record events of keys matching a glob or regular expression. `flush` is always recorded.
+   * @param {EventName[]} [options.events] - The events to record. Defaults to `set`, `delete` and `flush`.
+   * @param {AbortSignal} [options.signal] - Ends the stream once aborted.
+   *
+   * @returns {ChangeStream<T>} The stream. Breaking out of a `for await` loop or calling `close()` ends it too.
+   *
+   * @throws {Error} If `bufferSize` is not a positive number.
+   */
+  watch({
+    keys,
+    pattern,
+    events = [EVENT.SET, EVENT.DELETE, EVENT.FLUSH],
+    ...options
+  }: WatchOptions = {}): ChangeStream<T> {
+    const keySet = keys && new Set(keys);
+    const regExp = pattern !== undefined ? toKeyRegExp(pattern) : undefined;
+
+    const matches = (key?: string) =>
+      key === undefined ||
+      (!keySet && !regExp) ||
+      !!keySet?.has(key) ||
+      !!regExp?.test(key);
+
+    const stream: ChangeStream<T> = new ChangeStream<T>((push) => {
+      const unsubscribes = [...new Set(events)].map((event) =>
+        this.on(event, (params) => {
+          const key = (params as { key?: string }).key;
+          if (!matches(key)) return;
+
+          push({ event, timestamp: Date.now(), ...params } as ChangeRecord<T>);
+        }),
+      );
+
+      return () => {
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+        this.streams.delete(stream);
+      };
+    }, options);
+
+    // A stream created with an aborted signal never subscribes
+    if (!stream.closed) this.streams.add(stream);
+
+    return stream;
+  }
+
+  private subscribe<P>(
+    eventId: string,
+    listener: (params: P) => unknown,
+  ): () => void {
+    this.emitter.on(eventId, listener);
+
+    return () => {
+      this.emitter.off(eventId, listener);
+    };
+  }
+
+  private listen<E extends EventName>(
+    event: E,
+    listener: EventListener<T, E>,
+    key: KeyPattern | undefined,
+    once: boolean,
+  ): () => void {
+    if (event === EVENT.FLUSH && key !== undefined) {
+      throw Error("`key` is not supported for the `flush` event");
+    }
+
+    const eventId = this.eventIdOf(event, key);
+    const regExp =
+      key !== undefined && isWildcard(key) ? toKeyRegExp(key) : undefined;
+
+    const wrapper = (params: EventParamMap<T>[E]) => {
+      // Only `flush` has no key, and it can't be listened to with a `key`
+      if (regExp && !regExp.test((params as { key: string }).key)) return;
+      if (once) unsubscribe();
+
+      listener(params);
+    };
+
+    // Lets `off()` find the wrapper by the listener and its pattern, as `EventEmitter#once()` does
+    wrapper.listener = listener;
+    wrapper.pattern = regExp ? key : undefined;
+
+    const unsubscribe = this.subscribe(eventId, wrapper);
+
+    return unsubscribe;
+  }
+
+  private eventIdOf(event: EventName, key?: KeyPattern): string {
+    // Wildcard listeners receive every event and filter the keys themselves
+    if (key === undefined || isWildcard(key)) return event;
+
+    if (!key) throw Error("Empty key");
+
+    return `${event}-${key}`;
+  }
+
+  /**
+   * Registers a callback function to be executed when the global `expire` event is triggered.
+   *
+   * @param {EventFn<T>} callback - The function to be executed when the event is triggered.
+   *
+   * @returns {Function} A function that removes the callback.
+   */
+  onExpiry(callback: EventFn<T>): () => void {
+    return this.subscribe(EVENT.EXPIRE, callback);
+  }
+
+  /**
+   * Registers a callback function to be executed when the `expire` event for a specific key is triggered.
+   *
+   * @param {string} key - The key for which the expiration event is being tracked.
+   * @param {EventFn<T>} callback - The function to be executed when the event is triggered.
+   *
+   * @returns {Function} A function that removes the callback.
+   *
+   * @throws {Error} If the `key` is empty.
+   */
+  onKeyExpiry(key: string, callback: EventFn<T>): () => void {
+    if (!key) throw Error("Empty key");
+
+    return this.subscribe(`${EVENT.EXPIRE}-${key}`, callback);
+  }
+
+  /**
+   * Registers a callback function to be executed when the global `refetch` event is triggered.
+   *
+   * @param {EventFn<T>} callback - The function to be executed when the event is triggered.
+   *
+   * @returns {Function} A function that removes the callback.
+   */
+  onRefetch(callback: EventFn<T>): () => void {
+    return this.subscribe(EVENT.REFETCH, callback);
+  }
+
+  /**
+   * Registers a callback function to be executed when the `refetch` event for a specific key is triggered.
+   *
+   * @param {string} key - The key for which the refetch event is being tracked.
+   * @param {EventFn<T>} callback - The function to be executed when the event is triggered.
+   *
+   * @returns {Function} A function that removes the callback.
+   *
+   * @throws {Error} If the `key` is empty.
+   */
+  onKeyRefetch(key: string, callback: EventFn<T>): () => void {
+    if (!key) throw Error("Empty key");
+
+    return this.subscribe(`${EVENT.REFETCH}-${key}`, callback);
+  }
+
+  /**
+   * Registers a callback to be called when a refetch failure occurs for any key.
+   *
+   * @param {RefetchFailureEventFn<T>} callback - The function to be executed when a refetch failure event occurs. Receives the number of `attempts` and the last `error`.
+   *
+   * @returns {Function} A function that removes the callback.
+   */
+  onRefetchFailure(callback: RefetchFailureEventFn<T>): () => void {
+    return this.subscribe(EVENT.REFETCH_FAILURE, callback);
+  }
+
+  /**
+   * Registers a callback to be called when a refetch failure occurs for a specific key.
+   *
+   * @param {string} key - The key for which to listen for refetch failures.
+   * @param {RefetchFailureEventFn<T>} callback - The function to be executed when a refetch failure event occurs for the specified key. Receives the number of `attempts` and the last `error`.
+   *
+   * @returns {Function} A function that removes the callback.
+   *
+   * @throws {Error} Throws an error if the key is empty.
+   */
+  onKeyRefetchFailure(
+    key: string,
+    callback: RefetchFailureEventFn<T>,
+  ): () => void {
+    if (!key) throw Error("Empty key");
+
+    return this.subscribe(`${EVENT.REFETCH_FAILURE}-${key}`, callback);
+  }
+
+  /**
+   * Registers a callback to be called when any key is evicted due to `maxEntries` or `maxSizeBytes`.
+   *
+   * @param {EvictEventFn<T>} callback - The function to be executed when an eviction occurs. Receives the eviction `reason`.
+   *
+   * @returns {Function} A function that removes the callback.
+   */
+  onEvict(callback: EvictEventFn<T>): () => void {
+    return this.subscribe(EVENT.EVICT, callback);
+  }
+
+  /**
+   * Registers a callback to be called when a specific key is evicted due to `maxEntries` or `maxSizeBytes`.
+   *
+   * @param {string} key - The key for which to listen for evictions.
+   * @param {EvictEventFn<T>} callback - The function to be executed when the key is evicted. Receives the eviction `reason`.
+   *
+   * @returns {Function} A function that removes the callback.
+   *
+   * @throws {Error} Throws an error if the key is empty.
+   */
+  onKeyEvict(key: string, callback: EvictEventFn<T>): () => void {
+    if (!key) throw Error("Empty key");
+
+    return this.subscribe(`${EVENT.EVICT}-${key}`, callback);
+  }
+
+  /**
+   * Registers a callback to be called when any key is removed by `invalidateByTag()` or `deleteByPattern()`.
+   *
+   * @param {InvalidateEventFn<T>} callback - The function to be executed when a key is invalidated. Receives the matching `tag` or `pattern`.
+   *
+   * @returns {Function} A function that removes the callback.
+   */
+  onInvalidate(callback: InvalidateEventFn<T>): () => void {
+    return this.subscribe(EVENT.INVALIDATE, callback);
+  }
+
+  /**
+   * Registers a callback to be called when a specific key is removed by `invalidateByTag()` or `deleteByPattern()`.
+   *
+   * @param {string} key - The key for which to listen for invalidations.
+   * @param {InvalidateEventFn<T>} callback - The function to be executed when the key is invalidated. Receives the matching `tag` or `pattern`.
+   *
+   * @returns {Function} A function that removes the callback.
+   *
+   * @throws {Error} Throws an error if the key is empty.
+   */
+  onKeyInvalidate(key: string, callback: InvalidateEventFn<T>): () => void {
+    if (!key) throw Error("Empty key");
+
+    return this.subscribe(`${EVENT.INVALIDATE}-${key}`, callback);
+  }
+
+  /**
+   * Clears event listeners from the RunCache emitter based on the specified event and key.
+   *
+   * - If no parameters are provided, all event listeners will be removed.
+   * - If only an `event` is provided, all listeners for that event will be removed.
+   * - If both `event` and `key` are provided, listeners for that specific event-key combination will be removed.
+   *
+   * @param {Object} [params] - Optional parameters to specify which listeners to clear.
+   * @param {EventName} [params.event] - The event type for which listeners should be removed.
+   * @param {string} [params.key] - The key associated with the event for which listeners should be removed. Must be provided if `event` is provided.
+   *
+   * @returns {boolean} - Returns `true` if listeners were removed successfully or `false` if no action was taken.
+   *
+   * @throws {Error} If `key` is provided without an `event`.
+   */
+  clearEventListeners(params?: { event?: EventName; key?: string }): boolean {
+    if (!params) {
+      this.emitter.removeAllListeners();
+      return true;
+    }
 
     if (params.key && !params.event) {
       throw Error("`key` cannot be provided without `event`");
     }
 
     if (params.event && params.key) {
-      RunCache.emitter.removeAllListeners(`${params.event}-${params.key}`);
+      this.emitter.removeAllListeners(`${params.event}-${params.key}`);
       return true;
     }
 
     if (params.event) {
-      RunCache.emitter.removeAllListeners(params.event);
+      this.emitter.removeAllListeners(params.event);
 
-      RunCache.emitter.eventNames().forEach((eventName) => {
+      this.emitter.eventNames().forEach((eventName) => {
         if (
           params.event &&
           typeof eventName === "string" &&
           eventName.startsWith(params.event)
         ) {
-          RunCache.emitter.removeAllListeners(eventName);
+          this.emitter.removeAllListeners(eventName);
         }
       });
 
@@ -452,6 +2690,533 @@ class RunCache {
 
     return false;
   }
+
+  /**
+   * Sets a cache entry on the default instance. See {@link RunCache#set}.
+   */
+  static set<V = unknown>(params: SetParams<V>): Promise<boolean> {
+    return (RunCache.defaultInstance as RunCache<V>).set(params);
+  }
+
+  /**
+   * Sets the storage adapter of the default instance. See {@link RunCache#setStorage}.
+   */
+  static setStorage(storage?: StorageAdapter, autosaveInterval?: number): void {
+    RunCache.defaultInstance.setStorage(storage, autosaveInterval);
+  }
+
+  /**
+   * Sets the remote store of the default instance. See {@link RunCache#setRemote}.
+   */
+  static setRemote(remote?: RemoteStore): void {
+    RunCache.defaultInstance.setRemote(remote);
+  }
+
+  /**
+   * Adds a plugin to the default instance. See {@link RunCache#use}.
+   */
+  static use<V = unknown>(plugin: RunCachePlugin<V>): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).use(plugin);
+  }
+
+  /**
+   * Sets the invalidation transport of the default instance. See {@link RunCache#setInvalidationTransport}.
+   */
+  static setInvalidationTransport(transport?: InvalidationTransport): void {
+    RunCache.defaultInstance.setInvalidationTransport(transport);
+  }
+
+  /**
+   * Saves a snapshot of the default instance. See {@link RunCache#save}.
+   */
+  static save(): Promise<number> {
+    return RunCache.defaultInstance.save();
+  }
+
+  /**
+   * Restores a snapshot into the default instance. See {@link RunCache#load}.
+   */
+  static load(): Promise<number> {
+    return RunCache.defaultInstance.load();
+  }
+
+  /**
+   * Registers the source function of a key on the default instance. See {@link RunCache#registerSourceFn}.
+   */
+  static registerSourceFn<V = unknown>(
+    key: string,
+    sourceFn: SourceFn<V>,
+  ): void {
+    (RunCache.defaultInstance as RunCache<V>).registerSourceFn(key, sourceFn);
+  }
+
+  /**
+   * Gets or sets a cache entry on the default instance. See {@link RunCache#getOrSet}.
+   */
+  static getOrSet<V = unknown>(
+    params: GetOrSetParams<V> & { negativeTtl: number },
+  ): Promise<V | undefined>;
+  static getOrSet<V = unknown>(params: GetOrSetParams<V>): Promise<V>;
+  static getOrSet<V = unknown>(
+    params: GetOrSetParams<V>,
+  ): Promise<V | undefined> {
+    return (RunCache.defaultInstance as RunCache<V>).getOrSet(params);
+  }
+
+  /**
+   * Memoizes a function using the default instance. See {@link RunCache#wrap}.
+   */
+  static wrap<V = unknown, A extends unknown[] = unknown[]>(
+    fn: (...args: A) => Promise<V> | V,
+    options: WrapOptions<V, A> & { negativeTtl: number },
+  ): (...args: A) => Promise<V | undefined>;
+  static wrap<V = unknown, A extends unknown[] = unknown[]>(
+    fn: (...args: A) => Promise<V> | V,
+    options: WrapOptions<V, A>,
+  ): (...args: A) => Promise<V>;
+  static wrap<V = unknown, A extends unknown[] = unknown[]>(
+    fn: (...args: A) => Promise<V> | V,
+    options: WrapOptions<V, A>,
+  ): (...args: A) => Promise<V | undefined> {
+    return (RunCache.defaultInstance as RunCache<V>).wrap(fn, options);
+  }
+
+  /**
+   * Retrieves several values from the default instance. See {@link RunCache#mget}.
+   */
+  static mget<V = unknown>(
+    keys: string[],
+    options?: MgetOptions<V>,
+  ): Promise<MgetResult<V>> {
+    return (RunCache.defaultInstance as RunCache<V>).mget(keys, options);
+  }
+
+  /**
+   * Sets several cache entries on the default instance. See {@link RunCache#mset}.
+   */
+  static mset<V = unknown>(
+    entries: SetParams<V>[],
+    options?: { concurrency?: number },
+  ): Promise<MsetResult> {
+    return (RunCache.defaultInstance as RunCache<V>).mset(entries, options);
+  }
+
+  /**
+   * Deletes several cache entries from the default instance. See {@link RunCache#mdelete}.
+   */
+  static mdelete(keys: string[]): MdeleteResult {
+    return RunCache.defaultInstance.mdelete(keys);
+  }
+
+  /**
+   * Checks the existence of several keys in the default instance. See {@link RunCache#mhas}.
+   */
+  static mhas(keys: string[]): Promise<Map<string, boolean>> {
+    return RunCache.defaultInstance.mhas(keys);
+  }
+
+  /**
+   * Refetches a cache entry of the default instance. See {@link RunCache#refetch}.
+   */
+  static refetch(
+    key: string,
+    options?: { timeout?: number },
+  ): Promise<boolean> {
+    return RunCache.defaultInstance.refetch(key, options);
+  }
+
+  /**
+   * Retrieves a value from the default instance. See {@link RunCache#get}.
+   */
+  static get<V = unknown>(key: string): Promise<V | undefined> {
+    return (RunCache.defaultInstance as RunCache<V>).get(key);
+  }
+
+  /**
+   * Retrieves a value from the default instance with its status. See {@link RunCache#lookup}.
+   */
+  static lookup<V = unknown>(key: string): Promise<LookupResult<V>> {
+    return (RunCache.defaultInstance as RunCache<V>).lookup(key);
+  }
+
+  /**
+   * Deletes a cache entry from the default instance. See {@link RunCache#delete}.
+   */
+  static delete(key: string): boolean {
+    return RunCache.defaultInstance.delete(key);
+  }
+
+  /**
+   * Deletes all cache entries of the default instance. See {@link RunCache#flush}.
+   */
+  static flush(): void {
+    RunCache.defaultInstance.flush();
+  }
+
+  /**
+   * Releases the entries, timers and listeners of the default instance. See {@link RunCache#dispose}.
+   */
+  static dispose(): void {
+    RunCache.defaultInstance.dispose();
+  }
+
+  /**
+   * Returns a namespaced handle of the default instance. See {@link RunCache#namespace}.
+   */
+  static namespace<V = unknown>(name: string): CacheNamespace<V> {
+    return (RunCache.defaultInstance as RunCache<V>).namespace(name);
+  }
+
+  /**
+   * Deletes tagged entries of the default instance. See {@link RunCache#invalidateByTag}.
+   */
+  static invalidateByTag(tag: string): number {
+    return RunCache.defaultInstance.invalidateByTag(tag);
+  }
+
+  /**
+   * Deletes entries of the default instance by key pattern. See {@link RunCache#deleteByPattern}.
+   */
+  static deleteByPattern(pattern: KeyPattern): number {
+    return RunCache.defaultInstance.deleteByPattern(pattern);
+  }
+
+  /**
+   * Refetches tagged entries of the default instance. See {@link RunCache#refetchByTag}.
+   */
+  static refetchByTag(tag: string): Promise<number> {
+    return RunCache.defaultInstance.refetchByTag(tag);
+  }
+
+  /**
+   * Returns the statistics of the default instance. See {@link RunCache#stats}.
+   */
+  static stats(filter?: { key?: string; prefix?: string }): CacheStats {
+    return RunCache.defaultInstance.stats(filter);
+  }
+
+  /**
+   * Resets the statistics of the default instance. See {@link RunCache#resetStats}.
+   */
+  static resetStats(): void {
+    RunCache.defaultInstance.resetStats();
+  }
+
+  /**
+   * Returns the statistics of the default instance in Prometheus format. See {@link RunCache#prometheusMetrics}.
+   */
+  static prometheusMetrics(options?: {
+    prefix?: string;
+    labels?: Record<string, string>;
+  }): string {
+    return RunCache.defaultInstance.prometheusMetrics(options);
+  }
+
+  /**
+   * Checks whether the default instance holds a valid entry for the key. See {@link RunCache#has}.
+   */
+  static has(key: string): Promise<boolean> {
+    return RunCache.defaultInstance.has(key);
+  }
+
+  /**
+   * Returns the keys of the default instance. See {@link RunCache#keys}.
+   */
+  static keys(pattern?: KeyPattern): string[] {
+    return RunCache.defaultInstance.keys(pattern);
+  }
+
+  /**
+   * Iterates over the entries of the default instance. See {@link RunCache#entries}.
+   */
+  static entries<V = unknown>(): IterableIterator<[string, V]> {
+    return (RunCache.defaultInstance as RunCache<V>).entries();
+  }
+
+  /**
+   * The number of entries held by the default instance. See {@link RunCache#size}.
+   */
+  static get size(): number {
+    return RunCache.defaultInstance.size;
+  }
+
+  /**
+   * Returns the time left until an entry of the default instance expires. See {@link RunCache#ttl}.
+   */
+  static ttl(key: string): number | undefined {
+    return RunCache.defaultInstance.ttl(key);
+  }
+
+  /**
+   * Returns the metadata of an entry of the default instance. See {@link RunCache#inspect}.
+   */
+  static inspect(key: string): EntryInfo | undefined {
+    return RunCache.defaultInstance.inspect(key);
+  }
+
+  /**
+   * Restarts the TTL of an entry of the default instance. See {@link RunCache#touch}.
+   */
+  static touch(key: string, ttl?: number): boolean {
+    return RunCache.defaultInstance.touch(key, ttl);
+  }
+
+  /**
+   * Sets the TTL of an entry of the default instance. See {@link RunCache#expire}.
+   */
+  static expire(key: string, ttl: number): boolean {
+    return RunCache.defaultInstance.expire(key, ttl);
+  }
+
+  /**
+   * Removes the TTL of an entry of the default instance. See {@link RunCache#persist}.
+   */
+  static persist(key: string): boolean {
+    return RunCache.defaultInstance.persist(key);
+  }
+
+  /**
+   * Registers a listener on the default instance. See {@link RunCache#on}.
+   */
+  static on<E extends EventName, V = unknown>(
+    event: E,
+    listener: EventListener<V, E>,
+    options?: { key?: KeyPattern },
+  ): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).on(
+      event,
+      listener,
+      options,
+    );
+  }
+
+  /**
+   * Watches the events of the default instance. See {@link RunCache#watch}.
+   */
+  static watch<V = unknown>(options?: WatchOptions): ChangeStream<V> {
+    return (RunCache.defaultInstance as RunCache<V>).watch(options);
+  }
+
+  /**
+   * Registers a one-time listener on the default instance. See {@link RunCache#once}.
+   */
+  static once<E extends EventName, V = unknown>(
+    event: E,
+    listener: EventListener<V, E>,
+    options?: { key?: KeyPattern },
+  ): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).once(
+      event,
+      listener,
+      options,
+    );
+  }
+
+  /**
+   * Removes a listener from the default instance. See {@link RunCache#off}.
+   */
+  static off<E extends EventName, V = unknown>(
+    event: E,
+    listener: EventListener<V, E>,
+    options?: { key?: KeyPattern },
+  ): void {
+    (RunCache.defaultInstance as RunCache<V>).off(event, listener, options);
+  }
+
+  /**
+   * Registers a global `expire` listener on the default instance. See {@link RunCache#onExpiry}.
+   */
+  static onExpiry<V = unknown>(callback: EventFn<V>): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).onExpiry(callback);
+  }
+
+  /**
+   * Registers a key `expire` listener on the default instance. See {@link RunCache#onKeyExpiry}.
+   */
+  static onKeyExpiry<V = unknown>(
+    key: string,
+    callback: EventFn<V>,
+  ): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).onKeyExpiry(key, callback);
+  }
+
+  /**
+   * Registers a global `refetch` listener on the default instance. See {@link RunCache#onRefetch}.
+   */
+  static onRefetch<V = unknown>(callback: EventFn<V>): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).onRefetch(callback);
+  }
+
+  /**
+   * Registers a key `refetch` listener on the default instance. See {@link RunCache#onKeyRefetch}.
+   */
+  static onKeyRefetch<V = unknown>(
+    key: string,
+    callback: EventFn<V>,
+  ): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).onKeyRefetch(
+      key,
+      callback,
+    );
+  }
+
+  /**
+   * Registers a global `refetch-failure` listener on the default instance. See {@link RunCache#onRefetchFailure}.
+   */
+  static onRefetchFailure<V = unknown>(
+    callback: RefetchFailureEventFn<V>,
+  ): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).onRefetchFailure(callback);
+  }
+
+  /**
+   * Registers a key `refetch-failure` listener on the default instance. See {@link RunCache#onKeyRefetchFailure}.
+   */
+  static onKeyRefetchFailure<V = unknown>(
+    key: string,
+    callback: RefetchFailureEventFn<V>,
+  ): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).onKeyRefetchFailure(
+      key,
+      callback,
+    );
+  }
+
+  /**
+   * Registers a global `evict` listener on the default instance. See {@link RunCache#onEvict}.
+   */
+  static onEvict<V = unknown>(callback: EvictEventFn<V>): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).onEvict(callback);
+  }
+
+  /**
+   * Registers a key `evict` listener on the default instance. See {@link RunCache#onKeyEvict}.
+   */
+  static onKeyEvict<V = unknown>(
+    key: string,
+    callback: EvictEventFn<V>,
+  ): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).onKeyEvict(key, callback);
+  }
+
+  /**
+   * Registers a global `invalidate` listener on the default instance. See {@link RunCache#onInvalidate}.
+   */
+  static onInvalidate<V = unknown>(callback: InvalidateEventFn<V>): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).onInvalidate(callback);
+  }
+
+  /**
+   * Registers a key `invalidate` listener on the default instance. See {@link RunCache#onKeyInvalidate}.
+   */
+  static onKeyInvalidate<V = unknown>(
+    key: string,
+    callback: InvalidateEventFn<V>,
+  ): () => void {
+    return (RunCache.defaultInstance as RunCache<V>).onKeyInvalidate(
+      key,
+      callback,
+    );
+  }
+
+  /**
+   * Clears event listeners of the default instance. See {@link RunCache#clearEventListeners}.
+   */
+  static clearEventListeners(params?: {
+    event?: EventName;
+    key?: string;
+  }): boolean {
+    return RunCache.defaultInstance.clearEventListeners(params);
+  }
+}
+
+/**
+ * Creates a new isolated cache instance.
+ *
+ * @param {RunCacheOptions} [options] - Options for the instance.
+ * @returns {RunCache<T>} A cache instance that shares nothing with the default instance or other instances.
+ */
+function createCache<T = unknown>(options?: RunCacheOptions): RunCache<T> {
+  return new RunCache<T>(options);
 }
 
-export { RunCache };
+export { RunCache, createCache };
+export { DELETE_CAUSE, EVENT, EVICTION_REASON, SET_CAUSE } from "./events";
+export type {
+  DeleteCause,
+  DeleteEventParam,
+  EventFn,
+  EventListener,
+  EventName,
+  EventParam,
+  EventParamMap,
+  EvictEventFn,
+  EvictEventParam,
+  EvictionReason,
+  FlushEventParam,
+  InvalidateEventFn,
+  InvalidateEventParam,
+  MissEventParam,
+  RefetchEventParam,
+  RefetchFailureEventFn,
+  RefetchFailureEventParam,
+  SetCause,
+  SetEventParam,
+} from "./events";
+export {
+  EVICTION_POLICY,
+  LruPolicy,
+  LfuPolicy,
+  FifoPolicy,
+} from "./eviction-policy";
+export type { EvictionPolicy, EvictionPolicyName } from "./eviction-policy";
+export {
+  AbortError,
+  CircuitOpenError,
+  DependencyCycleError,
+  RespError,
+  RetryError,
+  SourceFnError,
+  TimeoutError,
+  WatchOverflowError,
+} from "./errors";
+export type { CircuitBreakerOptions, RetryPolicy } from "./retry";
+export { METRIC, toPrometheus } from "./metrics";
+export type { CacheStats, LatencyStats, MetricName } from "./metrics";
+export type { CacheNamespace } from "./namespace";
+export type { KeyPattern } from "./pattern";
+export type { RunCachePlugin } from "./plugin";
+export type { ChangeRecord, ChangeStream, WatchOptions } from "./watch";
+export { CodecPlugin, CompressionCodec, EncryptionCodec } from "./codec";
+export type {
+  CompressionCodecOptions,
+  EncryptionKey,
+  ValueCodec,
+} from "./codec";
+export { RedisStore } from "./remote-store";
+export type {
+  RedisStoreOptions,
+  RemoteEntry,
+  RemoteStore,
+} from "./remote-store";
+export type {
+  Invalidation,
+  InvalidationMessage,
+  InvalidationTransport,
+} from "./invalidation-bus";
+export {
+  BroadcastChannelTransport,
+  ClusterIpcTransport,
+  RedisPubSubTransport,
+} from "./invalidation-transports";
+export type {
+  IpcCluster,
+  IpcProcess,
+  RedisPubSubTransportOptions,
+} from "./invalidation-transports";
+export { FileStorageAdapter } from "./storage-adapter";
+export type {
+  Snapshot,
+  SnapshotEntry,
+  StorageAdapter,
+} from "./storage-adapter";
@@ -0,0 +1,124 @@
+import { Scheduler } from "./scheduler";
+
+describe("Scheduler", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("should run jobs in order of their due time with a single timer", () => {
+    const onDue = jest.fn();
+    const scheduler = new Scheduler(onDue);
+    const now = Date.now();
+
+    scheduler.schedule("c", now + 300);
+    scheduler.schedule("a", now + 100);
+    scheduler.schedule("b", now + 200);
+
+    expect(jest.getTimerCount()).toStrictEqual(1);
+
+    jest.advanceTimersByTime(300);
+
+    expect(onDue.mock.calls).toStrictEqual([
+      ["a", now + 100],
+      ["b", now + 200],
+      ["c", now + 300],
+    ]);
+    expect(scheduler.size).toStrictEqual(0);
+    expect(jest.getTimerCount()).toStrictEqual(0);
+  });
+
+  it("should replace the pending job of a key", () => {
+    const onDue = jest.fn();
+    const scheduler = new Scheduler(onDue);
+    const now = Date.now();
+
+    scheduler.schedule("a", now + 100);
+    scheduler.schedule("a", now + 200);
+
+    jest.advanceTimersByTime(100);
+    expect(onDue).toHaveBeenCalledTimes(0);
+
+    jest.advanceTimersByTime(100);
+    expect(onDue).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not run cancelled jobs", () => {
+    const onDue = jest.fn();
+    const scheduler = new Scheduler(onDue);
+    const now = Date.now();
+
+    scheduler.schedule("a", now + 100);
+    scheduler.schedule("b", now + 200);
+
+    expect(scheduler.cancel("a")).toStrictEqual(true);
+    expect(scheduler.cancel("a")).toStrictEqual(false);
+
+    jest.advanceTimersByTime(200);
+    expect(onDue.mock.calls).toStrictEqual([["b", now + 200]]);
+
+    scheduler.schedule("c", now + 300);
+    scheduler.clear();
+
+    expect(jest.getTimerCount()).toStrictEqual(0);
+  });
+
+  it("should run jobs rescheduled by the callback on the next run", () => {
+    const now = Date.now();
+    const scheduler: Scheduler = new Scheduler((key, at) =>
+      scheduler.schedule(key, at),
+    );
+
+    scheduler.schedule("a", now);
+
+    jest.advanceTimersByTime(0);
+
+    expect(scheduler.size).toStrictEqual(1);
+  });
+
+  it("should keep running jobs when a callback throws", () => {
+    const now = Date.now();
+    const error = new Error("Unexpected Error");
+    const onDue = jest.fn((key: string) => {
+      if (key === "bad") throw error;
+    });
+    const rethrown = jest
+      .spyOn(global, "queueMicrotask")
+      .mockImplementation(() => {});
+
+    const scheduler = new Scheduler(onDue);
+
+    scheduler.schedule("bad", now + 100);
+    scheduler.schedule("good", now + 100);
+    scheduler.schedule("later", now + 300);
+
+    jest.advanceTimersByTime(300);
+
+    expect(onDue.mock.calls).toStrictEqual([
+      ["bad", now + 100],
+      ["good", now + 100],
+      ["later", now + 300],
+    ]);
+    expect(rethrown).toHaveBeenCalledTimes(1);
+    expect(() => rethrown.mock.calls[0][0]()).toThrow(error);
+
+    rethrown.mockRestore();
+  });
+
+  it("should unref the timer when asked to", () => {
+    const now = Date.now();
+
+    const scheduler = new Scheduler(jest.fn(), { unref: true });
+    const timeout = jest.spyOn(global, "setTimeout");
+
+    scheduler.schedule("a", now + 100);
+
+    expect(timeout.mock.results[0].value.hasRef()).toStrictEqual(false);
+
+    timeout.mockRestore();
+  });
+});
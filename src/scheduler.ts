@@ -0,0 +1,212 @@
+type Job = {
+  key: string;
+  at: number;
+  /** Position in the heap, `-1` once the job has left it. */
+  index: number;
+};
+
+export type SchedulerOptions = {
+  /** Whether the timer should not keep the Node.js process alive. Defaults to `false`. */
+  unref?: boolean;
+};
+
+// Longer delays overflow to `1` in Node.js, the timer re-arms itself until the job is due instead
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Runs a callback for keys at given points in time using a min-heap of jobs and a single timer,
+ * no matter how many keys are scheduled. Each key has at most one pending job.
+ */
+export class Scheduler {
+  private heap: Job[] = [];
+  private jobs: Map<string, Job> = new Map<string, Job>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private timerAt?: number;
+
+  /**
+   * @param {Function} onDue - Called with the key and the time it was scheduled at once a job is due.
+   * @param {SchedulerOptions} [options] - Options for the timer.
+   */
+  constructor(
+    private onDue: (key: string, at: number) => void,
+    private options: SchedulerOptions = {},
+  ) {}
+
+  /**
+   * Schedules a job for a key, replacing its pending job if there is one.
+   *
+   * @param {string} key - The key to run the callback for.
+   * @param {number} at - The timestamp in milliseconds at which the job is due.
+   */
+  schedule(key: string, at: number): void {
+    const existing = this.jobs.get(key);
+
+    if (existing) {
+      existing.at = at;
+      this.update(existing.index);
+    } else {
+      const job: Job = { key, at, index: this.heap.length };
+
+      this.jobs.set(key, job);
+      this.heap.push(job);
+      this.siftUp(job.index);
+    }
+
+    this.arm();
+  }
+
+  /**
+   * Cancels the pending job of a key.
+   *
+   * @param {string} key - The key of the job.
+   * @returns {boolean} `true` if a pending job was cancelled.
+   */
+  cancel(key: string): boolean {
+    const job = this.jobs.get(key);
+    if (!job) return false;
+
+    this.jobs.delete(key);
+    this.removeAt(job.index);
+    this.arm();
+
+    return true;
+  }
+
+  /**
+   * Cancels every pending job and stops the timer.
+   */
+  clear(): void {
+    this.heap = [];
+    this.jobs.clear();
+    this.arm();
+  }
+
+  get size(): number {
+    return this.jobs.size;
+  }
+
+  private run(): void {
+    this.timer = undefined;
+    this.timerAt = undefined;
+
+    const now = Date.now();
+    const due: Job[] = [];
+
+    // Collect the due jobs first, so jobs rescheduled by `onDue` wait for the next run
+    while (this.heap.length && this.heap[0].at <= now) {
+      due.push(this.heap[0]);
+      this.removeAt(0);
+    }
+
+    try {
+      due.forEach((job) => {
+        // Skip jobs that an earlier callback cancelled or replaced
+        if (this.jobs.get(job.key) !== job) return;
+
+        this.jobs.delete(job.key);
+
+        try {
+          this.onDue(job.key, job.at);
+        } catch (e) {
+          // A throwing callback must not stop the other jobs, surface the error outside of the timer instead
+          queueMicrotask(() => {
+            throw e;
+          });
+        }
+      });
+    } finally {
+      this.arm();
+    }
+  }
+
+  private arm(): void {
+    const next = this.heap[0];
+
+    if (next && this.timer && this.timerAt === next.at) return;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      this.timerAt = undefined;
+    }
+
+    if (!next) return;
+
+    this.timerAt = next.at;
+    this.timer = setTimeout(
+      () => this.run(),
+      Math.min(Math.max(next.at - Date.now(), 0), MAX_TIMEOUT),
+    );
+
+    if (this.options.unref) {
+      this.timer.unref?.();
+    }
+  }
+
+  private removeAt(index: number): void {
+    const job = this.heap[index];
+    const last = this.heap.pop() as Job;
+
+    job.index = -1;
+
+    if (last !== job) {
+      this.heap[index] = last;
+      last.index = index;
+      this.update(index);
+    }
+  }
+
+  private update(index: number): void {
+    if (index > 0 && this.heap[index].at < this.heap[(index - 1) >> 1].at) {
+      this.siftUp(index);
+    } else {
+      this.siftDown(index);
+    }
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.heap[parent].at <= this.heap[index].at) return;
+
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (
+        left < this.heap.length &&
+        this.heap[left].at < this.heap[smallest].at
+      ) {
+        smallest = left;
+      }
+
+      if (
+        right < this.heap.length &&
+        this.heap[right].at < this.heap[smallest].at
+      ) {
+        smallest = right;
+      }
+
+      if (smallest === index) return;
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const job = this.heap[a];
+
+    this.heap[a] = this.heap[b];
+    this.heap[b] = job;
+    this.heap[a].index = a;
+    this.heap[b].index = b;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Approximates the number of bytes a value occupies in memory.
+ *
+ * Strings are counted as UTF-16 (2 bytes per character), buffers and typed arrays by their byte length,
+ * and other objects by the size of their JSON representation. The result is an estimate meant for
+ * enforcing `maxSizeBytes`, not an exact measurement of the V8 heap.
+ *
+ * @param {unknown} value - The value to measure.
+ * @returns {number} The approximate size in bytes.
+ */
+export function sizeOf(value: unknown): number {
+  switch (typeof value) {
+    case "string":
+      return value.length * 2;
+    case "number":
+    case "bigint":
+      return 8;
+    case "boolean":
+      return 4;
+    case "undefined":
+    case "function":
+    case "symbol":
+      return 0;
+  }
+
+  if (value === null) return 0;
+
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (value instanceof ArrayBuffer) return value.byteLength;
+
+  try {
+    return (JSON.stringify(value)?.length ?? 0) * 2;
+  } catch (e) {
+    // Circular structures can't be measured, count them as empty
+    return 0;
+  }
+}
@@ -0,0 +1,179 @@
+import { randomBytes } from "node:crypto";
+import { CodecPlugin, EncryptionCodec } from "./codec";
+import {
+  AbortError,
+  EVENT,
+  SourceFnContext,
+  SourceFnError,
+  TimeoutError,
+  createCache,
+} from "./run-cache";
+
+const hang = ({ signal }: SourceFnContext<string>) =>
+  new Promise<string>((_, reject) =>
+    signal.addEventListener("abort", () => reject(signal.reason)),
+  );
+
+describe("RunCache source functions", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("should pass the key, a signal, the previous value and the attempt", async () => {
+    const cache = createCache<string>();
+    const sourceFn = jest.fn(
+      ({ previousValue }: SourceFnContext<string>) => `${previousValue}+`,
+    );
+
+    await cache.set({ key: "key", sourceFn });
+    await cache.refetch("key");
+
+    expect(sourceFn).toHaveBeenCalledTimes(2);
+    expect(sourceFn).toHaveBeenNthCalledWith(1, {
+      key: "key",
+      signal: expect.any(AbortSignal),
+      previousValue: undefined,
+      attempt: 1,
+    });
+    expect(sourceFn.mock.calls[1][0].previousValue).toBe("undefined+");
+    expect(await cache.get("key")).toBe("undefined++");
+  });
+
+  it("should pass the previous value as read, not as stored by plugins", async () => {
+    const cache = createCache<{ id: number }>();
+    const sourceFn = jest.fn(
+      ({ previousValue }: SourceFnContext<{ id: number }>) => ({
+        id: (previousValue?.id ?? 0) + 1,
+      }),
+    );
+
+    cache.use(
+      new CodecPlugin([
+        new EncryptionCodec({ keys: [{ id: "1", key: randomBytes(32) }] }),
+      ]),
+    );
+
+    await cache.set({ key: "key", sourceFn });
+    await cache.refetch("key");
+
+    expect(sourceFn.mock.calls[1][0].previousValue).toStrictEqual({ id: 1 });
+    expect(await cache.get("key")).toStrictEqual({ id: 2 });
+  });
+
+  it("should count the attempts of a retry policy", async () => {
+    const cache = createCache<string>();
+    const sourceFn = jest.fn(({ attempt }: SourceFnContext<string>) => {
+      if (attempt < 3) throw new Error("Unexpected Error");
+
+      return `attempt ${attempt}`;
+    });
+
+    const set = cache.set({
+      key: "key",
+      sourceFn,
+      retry: { attempts: 3, backoff: 10 },
+    });
+
+    await jest.advanceTimersByTimeAsync(30);
+    await set;
+
+    expect(await cache.get("key")).toBe("attempt 3");
+  });
+
+  it("should time out a hung source function and abort its signal", async () => {
+    const cache = createCache<string>();
+    const sourceFn = jest.fn(hang);
+
+    const set = cache
+      .set({ key: "key", sourceFn, timeout: 100 })
+      .catch((e) => e);
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    const error = await set;
+    expect(error).toBeInstanceOf(SourceFnError);
+    expect(error.cause).toBeInstanceOf(TimeoutError);
+    expect(error.cause.message).toBe("Timed out after 100ms");
+    expect(sourceFn.mock.calls[0][0].signal.aborted).toBe(true);
+
+    // The timed out fetch no longer blocks the key
+    sourceFn.mockResolvedValue("value");
+    await cache.set({ key: "key", sourceFn, timeout: 100 });
+
+    expect(await cache.get("key")).toBe("value");
+    expect(cache.inspect("key")?.fetching).toBe(false);
+  });
+
+  it("should time out a refetch with the timeout of the call", async () => {
+    const cache = createCache<string>();
+    const failed = jest.fn();
+
+    cache.on(EVENT.REFETCH_FAILURE, failed);
+
+    await cache.set({ key: "key", value: "value", sourceFn: hang });
+
+    const refetch = cache.refetch("key", { timeout: 50 }).catch((e) => e);
+
+    await jest.advanceTimersByTimeAsync(50);
+
+    expect((await refetch).cause).toStrictEqual(new TimeoutError(50));
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(cache.inspect("key")?.fetching).toBe(false);
+
+    await expect(cache.refetch("key", { timeout: 0 })).rejects.toThrow(
+      "Value `timeout` must be a positive number",
+    );
+    await expect(
+      cache.set({ key: "key", value: "value", timeout: -1 }),
+    ).rejects.toThrow("Value `timeout` must be a positive number");
+  });
+
+  it("should abort a pending set() when the key is deleted", async () => {
+    const cache = createCache<string>();
+    const sourceFn = jest.fn(hang);
+
+    const set = cache.set({ key: "key", sourceFn, errorTtl: 100 });
+
+    cache.delete("key");
+
+    const error = await set.catch((e) => e);
+    expect(error).toBeInstanceOf(SourceFnError);
+    expect(error.cause).toStrictEqual(new AbortError("key"));
+    expect(sourceFn.mock.calls[0][0].signal.reason).toBe(error.cause);
+
+    // The abort is not cached as an error
+    expect(await cache.has("key")).toBe(false);
+    expect(cache.size).toBe(0);
+  });
+
+  it("should abort refetches in flight on flush()", async () => {
+    const cache = createCache<string>();
+    const failed = jest.fn();
+
+    cache.on(EVENT.REFETCH_FAILURE, failed);
+
+    await cache.set({ key: "a", value: "a", sourceFn: hang });
+    await cache.set({ key: "b", value: "b", sourceFn: hang });
+
+    const refetches = Promise.all([cache.refetch("a"), cache.refetch("b")]);
+
+    cache.flush();
+
+    expect(await refetches).toStrictEqual([false, false]);
+    expect(failed).not.toHaveBeenCalled();
+  });
+
+  it("should pass keys without the prefix in namespaces", async () => {
+    const cache = createCache<string>();
+    const users = cache.namespace("users");
+
+    await users.set({ key: "42", sourceFn: ({ key }) => `user ${key}` });
+
+    expect(await users.get("42")).toBe("user 42");
+  });
+});
@@ -0,0 +1,70 @@
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { FileStorageAdapter, Snapshot } from "./storage-adapter";
+
+describe("FileStorageAdapter", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "run-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should throw an error if the file path is empty", () => {
+    expect(() => new FileStorageAdapter("")).toThrow("Empty file path");
+  });
+
+  it("should resolve to undefined when nothing has been saved", async () => {
+    const adapter = new FileStorageAdapter(path.join(directory, "cache.json"));
+
+    await expect(adapter.load()).resolves.toBeUndefined();
+  });
+
+  it("should save and load a snapshot as JSON", async () => {
+    const filePath = path.join(directory, "nested", "cache.json");
+    const adapter = new FileStorageAdapter(filePath);
+
+    const snapshot: Snapshot = {
+      version: 1,
+      savedAt: Date.now(),
+      entries: [
+        {
+          key: "key",
+          value: { id: 1, buffer: Buffer.from("value") },
+          createAt: 1,
+          updateAt: 2,
+          ttl: 100,
+          hasSourceFn: true,
+        },
+      ],
+    };
+
+    await adapter.save(snapshot);
+
+    expect(JSON.parse(await readFile(filePath, "utf8")).version).toStrictEqual(
+      1,
+    );
+    await expect(adapter.load()).resolves.toStrictEqual(snapshot);
+  });
+
+  it("should keep overlapping saves apart", async () => {
+    const filePath = path.join(directory, "cache.json");
+    const adapter = new FileStorageAdapter(filePath);
+    const snapshot = (savedAt: number): Snapshot => ({
+      version: 1,
+      savedAt,
+      entries: [],
+    });
+
+    await Promise.all(
+      [1, 2, 3].map((savedAt) => adapter.save(snapshot(savedAt))),
+    );
+
+    expect([1, 2, 3]).toContain((await adapter.load())?.savedAt);
+    expect(await readdir(directory)).toStrictEqual(["cache.json"]);
+  });
+});
@@ -0,0 +1,82 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+export type SnapshotEntry = {
+  key: string;
+  value: unknown;
+  createAt: number;
+  updateAt: number;
+  ttl?: number;
+  sliding?: boolean;
+  maxAge?: number;
+  touchAt?: number;
+  autoRefetch?: boolean;
+  staleWhileRevalidate?: boolean;
+  staleTtl?: number;
+  tags?: string[];
+  dependsOn?: string[];
+  hasSourceFn: boolean;
+};
+
+export type Snapshot = {
+  version: 1;
+  savedAt: number;
+  entries: SnapshotEntry[];
+};
+
+/**
+ * Persists cache snapshots. Implement it to keep the cache in a database, object storage or anywhere else.
+ */
+export interface StorageAdapter {
+  save(snapshot: Snapshot): Promise<void>;
+  /** Resolves to `undefined` when nothing has been saved yet. */
+  load(): Promise<Snapshot | undefined>;
+}
+
+// `Buffer#toJSON` turns buffers into `{ type: "Buffer", data: [...] }`, turn them back on load
+export const reviveBuffers = (key: string, value: unknown) => {
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    (value as { type?: unknown }).type === "Buffer" &&
+    Array.isArray((value as { data?: unknown }).data)
+  ) {
+    return Buffer.from((value as { data: number[] }).data);
+  }
+
+  return value;
+};
+
+/**
+ * Stores snapshots as a JSON file. Values must be JSON-serializable, buffers are restored as buffers.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  constructor(private filePath: string) {
+    if (!filePath) throw new Error("Empty file path");
+  }
+
+  async save(snapshot: Snapshot): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated snapshot behind. Each save gets its own
+    // file, so overlapping saves such as an autosave and a manual `save()` don't rename each other's file away.
+    const tempPath = `${this.filePath}.${process.pid}.${randomUUID()}.tmp`;
+
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  async load(): Promise<Snapshot | undefined> {
+    let content: string;
+
+    try {
+      content = await fs.readFile(this.filePath, "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw e;
+    }
+
+    return JSON.parse(content, reviveBuffers);
+  }
+}
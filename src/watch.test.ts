@@ -0,0 +1,154 @@
+import { EVENT, WatchOverflowError, createCache } from "./run-cache";
+import { ChangeRecord } from "./watch";
+
+describe("RunCache.watch", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("should stream set, delete and flush records", async () => {
+    const cache = createCache<string>();
+    const stream = cache.watch();
+
+    await cache.set({ key: "key", value: "first" });
+    await cache.set({ key: "key", value: "second" });
+    await cache.get("key");
+    cache.delete("key");
+    cache.flush();
+
+    const records: ChangeRecord<string>[] = [];
+
+    for await (const record of stream) {
+      records.push(record);
+      if (record.event === EVENT.FLUSH) break;
+    }
+
+    expect(records).toStrictEqual([
+      expect.objectContaining({ event: "set", key: "key", value: "first" }),
+      expect.objectContaining({
+        event: "set",
+        value: "second",
+        previousValue: "first",
+      }),
+      expect.objectContaining({ event: "delete", key: "key", cause: "delete" }),
+      { event: "flush", timestamp: expect.any(Number), entries: 0 },
+    ]);
+    expect(stream.closed).toStrictEqual(true);
+  });
+
+  it("should wait for records that are not emitted yet", async () => {
+    const cache = createCache();
+    const stream = cache.watch({ events: [EVENT.MISS] });
+
+    const next = stream.next();
+    await cache.get("missing");
+
+    await expect(next).resolves.toStrictEqual({
+      value: { event: "miss", key: "missing", timestamp: expect.any(Number) },
+      done: false,
+    });
+  });
+
+  it("should filter records by keys, pattern and events", async () => {
+    const cache = createCache();
+    const stream = cache.watch({
+      keys: ["config"],
+      pattern: "user:*",
+      events: [EVENT.DELETE],
+    });
+
+    for (const key of ["config", "user:1", "post:1"]) {
+      await cache.set({ key, value: key });
+      cache.delete(key);
+    }
+
+    stream.close();
+
+    await expect(stream.next()).resolves.toStrictEqual({
+      value: undefined,
+      done: true,
+    });
+
+    const filtered = cache.watch({
+      keys: ["config"],
+      pattern: "user:*",
+      events: [EVENT.DELETE],
+    });
+
+    for (const key of ["config", "user:1", "post:1"]) {
+      await cache.set({ key, value: key });
+      cache.delete(key);
+    }
+
+    await expect(filtered.next()).resolves.toMatchObject({
+      value: { event: "delete", key: "config" },
+    });
+    await expect(filtered.next()).resolves.toMatchObject({
+      value: { event: "delete", key: "user:1" },
+    });
+
+    filtered.close();
+  });
+
+  it("should end with an error after the buffered records on overflow", async () => {
+    const cache = createCache();
+    const stream = cache.watch({ bufferSize: 2 });
+
+    for (const key of ["a", "b", "c"]) {
+      await cache.set({ key, value: key });
+    }
+
+    await expect(stream.next()).resolves.toMatchObject({ value: { key: "a" } });
+    await expect(stream.next()).resolves.toMatchObject({ value: { key: "b" } });
+    await expect(stream.next()).rejects.toThrow(WatchOverflowError);
+    await expect(stream.next()).resolves.toStrictEqual({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it("should drop the oldest records with drop-oldest", async () => {
+    const cache = createCache();
+    const stream = cache.watch({ bufferSize: 2, overflow: "drop-oldest" });
+
+    for (const key of ["a", "b", "c"]) {
+      await cache.set({ key, value: key });
+    }
+
+    await expect(stream.next()).resolves.toMatchObject({ value: { key: "b" } });
+    await expect(stream.next()).resolves.toMatchObject({ value: { key: "c" } });
+    expect(stream.dropped).toStrictEqual(1);
+
+    stream.close();
+  });
+
+  it("should end cleanly when aborted or disposed", async () => {
+    const cache = createCache();
+    const controller = new AbortController();
+    const stream = cache.watch({ signal: controller.signal });
+    const other = cache.watch();
+
+    const next = stream.next();
+    controller.abort();
+
+    await expect(next).resolves.toStrictEqual({
+      value: undefined,
+      done: true,
+    });
+
+    const aborted = cache.watch({ signal: controller.signal });
+    expect(aborted.closed).toStrictEqual(true);
+
+    cache.dispose();
+    expect(other.closed).toStrictEqual(true);
+
+    expect(() => cache.watch({ bufferSize: 0 })).toThrow(
+      "Value `bufferSize` must be a positive number",
+    );
+  });
+});
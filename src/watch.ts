@@ -0,0 +1,172 @@
+import { WatchOverflowError } from "./errors";
+import type { EventName, EventParamMap } from "./events";
+import type { KeyPattern } from "./pattern";
+
+/**
+ * An event of a cache, with the name of the event, the time it was recorded and its payload.
+ */
+export type ChangeRecord<T = unknown> = {
+  [E in EventName]: { event: E; timestamp: number } & EventParamMap<T>[E];
+}[EventName];
+
+export type WatchOptions = {
+  /** Only record events of these keys. */
+  keys?: string[];
+  /** Only record events of keys matching this glob or regular expression. Combined with `keys`, a key matching either is recorded. */
+  pattern?: KeyPattern;
+  /** The events to record. Defaults to `set`, `delete` and `flush`. */
+  events?: EventName[];
+  /** The maximum number of records waiting to be consumed. Defaults to `1000`. */
+  bufferSize?: number;
+  /** What to do once the buffer is full: `error` ends the stream with a `WatchOverflowError`, `drop-oldest` discards the oldest record. Defaults to `error`. */
+  overflow?: "error" | "drop-oldest";
+  /** Ends the stream once aborted. */
+  signal?: AbortSignal;
+};
+
+type Waiter<T> = (result: IteratorResult<ChangeRecord<T>>) => void;
+
+/**
+ * An async iterator of cache events. Records are buffered until they are consumed, up to `bufferSize` records.
+ * The stream ends when it is aborted, closed, or `return()` is called, e.g. by breaking out of a `for await` loop.
+ */
+export class ChangeStream<T = unknown> implements AsyncIterableIterator<
+  ChangeRecord<T>
+> {
+  /** The number of records discarded with the `drop-oldest` overflow strategy. */
+  dropped = 0;
+
+  private buffer: ChangeRecord<T>[] = [];
+  private waiters: Waiter<T>[] = [];
+  private ended = false;
+  private error?: unknown;
+  private unsubscribe: () => void = () => {};
+  private bufferSize: number;
+  private overflow: "error" | "drop-oldest";
+  private signal?: AbortSignal;
+  private onAbort = () => this.close();
+
+  /**
+   * Use `watch()` of a cache instead of creating streams directly.
+   *
+   * @param {Function} subscribe - Starts passing records to the stream, returns a function that stops it.
+   * @param {WatchOptions} [options] - The buffer options and the abort signal.
+   *
+   * @throws {Error} If `bufferSize` is not a positive number.
+   */
+  constructor(
+    subscribe: (push: (record: ChangeRecord<T>) => void) => () => void,
+    {
+      bufferSize = 1000,
+      overflow = "error",
+      signal,
+    }: Pick<WatchOptions, "bufferSize" | "overflow" | "signal"> = {},
+  ) {
+    if (!(bufferSize > 0)) {
+      throw new Error("Value `bufferSize` must be a positive number");
+    }
+
+    this.bufferSize = bufferSize;
+    this.overflow = overflow;
+
+    if (signal?.aborted) {
+      this.ended = true;
+      return;
+    }
+
+    this.unsubscribe = subscribe((record) => this.push(record));
+
+    if (signal) {
+      this.signal = signal;
+      signal.addEventListener("abort", this.onAbort, { once: true });
+    }
+  }
+
+  /** Whether the stream stopped recording events. */
+  get closed(): boolean {
+    return this.ended;
+  }
+
+  next(): Promise<IteratorResult<ChangeRecord<T>>> {
+    if (this.buffer.length) {
+      return Promise.resolve({
+        value: this.buffer.shift() as ChangeRecord<T>,
+        done: false,
+      });
+    }
+
+    if (this.error !== undefined) {
+      const error = this.error;
+      this.error = undefined;
+
+      return Promise.reject(error);
+    }
+
+    if (this.ended) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve) => {
+      this.waiters.push(resolve);
+    });
+  }
+
+  return(): Promise<IteratorResult<ChangeRecord<T>>> {
+    this.close();
+
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<ChangeRecord<T>> {
+    return this;
+  }
+
+  /**
+   * Stops recording events and ends the stream. Records that were not consumed yet are discarded.
+   */
+  close(): void {
+    this.end();
+  }
+
+  private push(record: ChangeRecord<T>): void {
+    if (this.ended) return;
+
+    const waiter = this.waiters.shift();
+
+    if (waiter) {
+      waiter({ value: record, done: false });
+      return;
+    }
+
+    if (this.buffer.length >= this.bufferSize) {
+      if (this.overflow === "error") {
+        this.end(new WatchOverflowError(this.bufferSize));
+        return;
+      }
+
+      this.buffer.shift();
+      this.dropped += 1;
+    }
+
+    this.buffer.push(record);
+  }
+
+  private end(error?: unknown): void {
+    if (this.ended) return;
+
+    this.ended = true;
+    this.unsubscribe();
+    this.signal?.removeEventListener("abort", this.onAbort);
+
+    if (error !== undefined) {
+      // Waiters can't be pending with a full buffer, throw once the buffered records were consumed
+      this.error = error;
+      return;
+    }
+
+    this.buffer = [];
+    this.waiters
+      .splice(0)
+      .forEach((waiter) => waiter({ value: undefined, done: true }));
+  }
+}